@@ -10,6 +10,7 @@ import { updateAllCubeOutlines } from '../../mods/cube'
 import { createScopedTranslator } from '../../util/lang'
 import FooterComponent from './footer.svelte'
 import DatapackComponent from './pages/datapack.svelte'
+import DiamondFireComponent from './pages/diamondfire.svelte'
 import EventFunctionsComponent from './pages/eventFunctions.svelte'
 import GeneralComponent from './pages/general.svelte'
 import MiscComponent from './pages/misc.svelte'
@@ -61,6 +62,11 @@ export function openBlueprintSettings() {
 				label: localize('pages.plugin.title'),
 				icon: 'fa-paper-plane',
 			},
+			diamondfire: {
+				component: DiamondFireComponent,
+				label: localize('pages.diamondfire.title'),
+				icon: 'diamond',
+			},
 			misc: {
 				component: MiscComponent,
 				label: localize('pages.misc.title'),
@@ -94,6 +94,7 @@ export const BLUEPRINT_CODEC = registerDeletableHandlerPatch({
 
 				Project.last_used_blueprint_id =
 					model.meta?.last_used_blueprint_id ?? Project.animated_java.blueprint_id
+				Project.last_sent_df_hashes = model.meta?.last_sent_df_hashes
 
 				if (model.textures) {
 					for (const texture of model.textures) {
@@ -257,6 +258,7 @@ export const BLUEPRINT_CODEC = registerDeletableHandlerPatch({
 
 						save_location: Project.save_path,
 						last_used_blueprint_id: Project.last_used_blueprint_id,
+						last_sent_df_hashes: Project.last_sent_df_hashes,
 					},
 					resolution: {
 						width: Project.texture_width ?? 16,
@@ -23,6 +23,7 @@ declare module '@blockbench-types/generated/io/project' {
 	export interface ModelProject {
 		animated_java: BlueprintSettings
 		last_used_blueprint_id: string
+		last_sent_df_hashes?: IBlueprintDFTemplateHashesJSON
 		visualBoundingBox?: THREE.LineSegments
 		pluginMode: Observable<boolean>
 		transparentTexture: Texture
@@ -116,6 +117,16 @@ export interface ICollectionJSON {
 	visibility?: boolean
 }
 
+/**
+ * The hashes of the DiamondFire templates that were last sent to CodeClient
+ */
+export interface IBlueprintDFTemplateHashesJSON {
+	/** The hash of the main init template */
+	rig: string
+	/** The hashes of the animation init templates by DF animation name */
+	animations: Record<string, string>
+}
+
 /**
  * The serialized Blueprint
  */
@@ -125,6 +136,7 @@ export interface IBlueprintFormatJSON {
 		format_version?: string
 		uuid?: string
 		last_used_blueprint_id?: string
+		last_sent_df_hashes?: IBlueprintDFTemplateHashesJSON
 		box_uv?: boolean
 		backup?: boolean
 		save_location?: string
@@ -182,6 +194,7 @@ export function convertToBlueprint() {
 	// Convert the current project to a Blueprint
 	Project!.save_path = ''
 	Project!.last_used_blueprint_id = ''
+	Project!.last_sent_df_hashes = undefined
 
 	for (const group of Group.all) {
 		group.createUniqueName(Group.all.filter(g => g !== group))
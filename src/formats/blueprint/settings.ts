@@ -1,6 +1,7 @@
 import { join } from 'node:path'
 import { getFsModule } from '../../constants'
 import type { ValueCheckResult } from '../../svelteComponents/sidebarDialogItems/sidebarDialogTypes'
+import type { DFTemplateOutput } from '../../systems/df/dfexporter'
 import { getVersionById } from '../../systems/minecraft/versionManager'
 import { resolvePath } from '../../util/fileUtil'
 import { createScopedTranslator } from '../../util/lang'
@@ -10,6 +11,13 @@ const localize = createScopedTranslator('dialog.blueprint_settings')
 
 export type ExportMode = 'folder' | 'zip' | 'none'
 
+/**
+ * How the transformations of non-locator nodes are stored in DF animation data.
+ * - `matrix`: All 16 entries of the transformation matrix
+ * - `trs`: Translation, left rotation and scale, reassembled by the `rig.composeMatrix` base template
+ */
+export type DFTransformEncoding = 'matrix' | 'trs'
+
 export interface BlueprintSettings {
 	blueprint_id: string
 
@@ -42,6 +50,13 @@ export interface BlueprintSettings {
 	// Plugin Settings
 	baked_animations: boolean
 	json_file: string
+	// DiamondFire Settings
+	df_model_id: string
+	df_item_material: string
+	df_function_namespace: string
+	df_include_base_templates: boolean
+	df_output_mode: DFTemplateOutput
+	df_transform_encoding: DFTransformEncoding
 }
 
 export const defaultValues: BlueprintSettings = {
@@ -82,6 +97,13 @@ export const defaultValues: BlueprintSettings = {
 	// Plugin Settings
 	baked_animations: true,
 	json_file: '',
+	// DiamondFire Settings
+	df_model_id: '',
+	df_item_material: '',
+	df_function_namespace: 'rig',
+	df_include_base_templates: false,
+	df_output_mode: 'codeclient',
+	df_transform_encoding: 'matrix',
 }
 
 export function validateBlueprintId(value: string): ValueCheckResult {
@@ -314,6 +336,51 @@ export function validateZipPath(value: string): ValueCheckResult {
 	}
 }
 
+export function validateDFFunctionNamespace(value: string): ValueCheckResult {
+	if (value === '') {
+		return {
+			type: 'error',
+			message: localize('df_function_namespace.error.empty'),
+		}
+	}
+
+	if (!/^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/.exec(value)) {
+		return {
+			type: 'error',
+			message: localize('df_function_namespace.error.invalid_characters'),
+		}
+	}
+}
+
+export function validateDFModelId(value: string): ValueCheckResult {
+	// An empty model id falls back to the Blueprint name
+	if (value === '') return
+
+	if (/[^A-Za-z0-9_\-]/.exec(value)) {
+		return {
+			type: 'error',
+			message: localize('df_model_id.error.invalid_characters'),
+		}
+	}
+}
+
+export function validateDFItemMaterial(value: string): ValueCheckResult {
+	// An empty item material falls back to the display item
+	if (value === '') return
+
+	const parsed = parseResourceLocation(value)
+	if (
+		parsed.path === '' ||
+		/[^a-z0-9_.\-]/.exec(parsed.namespace) ||
+		/[^a-z0-9_.\-\/]/.exec(parsed.path)
+	) {
+		return {
+			type: 'error',
+			message: localize('df_item_material.error.invalid_item'),
+		}
+	}
+}
+
 export async function validateThisProjectsBlueprintSettings(): Promise<
 	Record<string, ValueCheckResult | undefined>
 > {
@@ -338,5 +405,10 @@ export async function validateThisProjectsBlueprintSettings(): Promise<
 			Project.animated_java.data_pack_export_mode === 'zip'
 				? validateZipPath(Project.animated_java.data_pack)
 				: undefined,
+		df_model_id: validateDFModelId(Project.animated_java.df_model_id),
+		df_item_material: validateDFItemMaterial(Project.animated_java.df_item_material),
+		df_function_namespace: validateDFFunctionNamespace(
+			Project.animated_java.df_function_namespace
+		),
 	}
 }
@@ -12,13 +12,16 @@ import {
 	getDFBaseTemplateDefinitions,
 } from '../systems/df/baseTemplates'
 import {
+	checkDFBaseTemplates,
 	exportDFBaseTemplate,
 	exportDFBaseTemplates,
 	exportProject,
 	exportProjectDF,
+	inspectDFTemplates,
 } from '../systems/exporter'
 import { localize as translate } from '../util/lang'
 import { checkForUpdates } from '../util/updateChecker'
+import { testCodeClientConnection } from './codeClientSettings'
 
 function createIconImg() {
 	const img = document.createElement('img')
@@ -225,7 +228,87 @@ const EXPORT_DF = registerDeletableHandlerPatch({
 	},
 })
 
+const EXPORT_DF_FORCE = registerDeletableHandlerPatch({
+	id: 'animated_java:action/export-df-force',
+	create() {
+		return new Blockbench.Action(`animated_java:action/export-df-force`, {
+			icon: 'sync',
+			category: 'animated_java',
+			name: translate('action.export_df_force.name'),
+			description: translate('action.export_df_force.description'),
+			condition: activeProjectIsBlueprintFormat,
+			click() {
+				void exportProjectDF(undefined, true)
+			},
+		})
+	},
+})
+
+const EXPORT_DF_FILE = registerDeletableHandlerPatch({
+	id: 'animated_java:action/export-df-file',
+	create() {
+		return new Blockbench.Action(`animated_java:action/export-df-file`, {
+			icon: 'save',
+			category: 'animated_java',
+			name: translate('action.export_df_file.name'),
+			description: translate('action.export_df_file.description'),
+			condition: activeProjectIsBlueprintFormat,
+			click() {
+				void exportProjectDF('file')
+			},
+		})
+	},
+})
+
+const EXPORT_DF_PLACE = registerDeletableHandlerPatch({
+	id: 'animated_java:action/export-df-place',
+	create() {
+		return new Blockbench.Action(`animated_java:action/export-df-place`, {
+			icon: 'place',
+			category: 'animated_java',
+			name: translate('action.export_df_place.name'),
+			description: translate('action.export_df_place.description'),
+			condition: activeProjectIsBlueprintFormat,
+			click() {
+				void exportProjectDF('place')
+			},
+		})
+	},
+})
+
+const INSPECT_DF_TEMPLATES = registerDeletableHandlerPatch({
+	id: 'animated_java:action/inspect-df-templates',
+	create() {
+		return new Blockbench.Action(`animated_java:action/inspect-df-templates`, {
+			icon: 'plagiarism',
+			category: 'animated_java',
+			name: translate('action.inspect_df_templates.name'),
+			description: translate('action.inspect_df_templates.description'),
+			click() {
+				inspectDFTemplates()
+			},
+		})
+	},
+})
+
+const TEST_CODECLIENT_CONNECTION = registerDeletableHandlerPatch({
+	id: 'animated_java:action/test-codeclient-connection',
+	create() {
+		return new Blockbench.Action(`animated_java:action/test-codeclient-connection`, {
+			icon: 'wifi_tethering',
+			category: 'animated_java',
+			name: translate('action.test_codeclient_connection.name'),
+			description: translate('action.test_codeclient_connection.description'),
+			click() {
+				void testCodeClientConnection()
+			},
+		})
+	},
+})
+
 const DF_BASE_TEMPLATES_ALL_ACTION_ID = 'animated_java:action/df-base-templates-all'
+const DF_BASE_TEMPLATES_PLACE_ALL_ACTION_ID = 'animated_java:action/df-base-templates-place-all'
+const DF_BASE_TEMPLATES_CHECK_ACTION_ID = 'animated_java:action/df-base-templates-check'
 
 interface DFBaseTemplateCategoryDetails {
 	category: DFBaseTemplateCategory
@@ -330,6 +413,36 @@ const DF_BASE_TEMPLATES_ALL = registerDeletableHandlerPatch({
 	},
 })
 
+const DF_BASE_TEMPLATES_PLACE_ALL = registerDeletableHandlerPatch({
+	id: DF_BASE_TEMPLATES_PLACE_ALL_ACTION_ID,
+	create() {
+		return new Blockbench.Action(DF_BASE_TEMPLATES_PLACE_ALL_ACTION_ID, {
+			icon: 'place',
+			category: 'animated_java',
+			name: `${translate('action.df_base_templates_place_all.name')} (${getDFBaseTemplateCount()})`,
+			description: translate('action.df_base_templates_place_all.description'),
+			click() {
+				void exportDFBaseTemplates(undefined, 'place')
+			},
+		})
+	},
+})
+
+const DF_BASE_TEMPLATES_CHECK = registerDeletableHandlerPatch({
+	id: DF_BASE_TEMPLATES_CHECK_ACTION_ID,
+	create() {
+		return new Blockbench.Action(DF_BASE_TEMPLATES_CHECK_ACTION_ID, {
+			icon: 'update',
+			category: 'animated_java',
+			name: translate('action.df_base_templates_check.name'),
+			description: translate('action.df_base_templates_check.description'),
+			click() {
+				void checkDFBaseTemplates()
+			},
+		})
+	},
+})
+
 const DF_BASE_TEMPLATE_CATEGORY_ACTIONS = DF_BASE_TEMPLATE_CATEGORY_DETAILS.map(details =>
 	registerDeletableHandlerPatch({
 		id: details.actionId,
@@ -422,7 +535,12 @@ function createDFBaseTemplatesSpecificSubMenu() {
 
 function createDFBaseTemplatesSubMenu() {
 	const categoryActions = DF_BASE_TEMPLATE_CATEGORY_ACTIONS.map(action => action.get())
-	if (DF_BASE_TEMPLATES_ALL.get() == undefined || categoryActions.some(action => action == undefined))
+	if (
+		DF_BASE_TEMPLATES_ALL.get() == undefined ||
+		DF_BASE_TEMPLATES_PLACE_ALL.get() == undefined ||
+		DF_BASE_TEMPLATES_CHECK.get() == undefined ||
+		categoryActions.some(action => action == undefined)
+	)
 		return
 
 	const specificSubMenu = createDFBaseTemplatesSpecificSubMenu()
@@ -433,12 +551,26 @@ function createDFBaseTemplatesSubMenu() {
 		name: translate('action.df_base_templates.name'),
 		icon: 'construction',
 		searchable: false,
-		children: [DF_BASE_TEMPLATES_ALL.get(), ...(categoryActions as Action[]), specificSubMenu],
+		children: [
+			DF_BASE_TEMPLATES_ALL.get(),
+			DF_BASE_TEMPLATES_PLACE_ALL.get(),
+			...(categoryActions as Action[]),
+			specificSubMenu,
+			DF_BASE_TEMPLATES_CHECK.get(),
+		],
 	}
 }
 
 function createDFSubMenu() {
-	if (EXPORT_DF.get() == undefined) return
+	if (
+		EXPORT_DF.get() == undefined ||
+		EXPORT_DF_FORCE.get() == undefined ||
+		EXPORT_DF_FILE.get() == undefined ||
+		EXPORT_DF_PLACE.get() == undefined ||
+		INSPECT_DF_TEMPLATES.get() == undefined ||
+		TEST_CODECLIENT_CONNECTION.get() == undefined
+	)
+		return
 
 	const baseTemplatesSubMenu = createDFBaseTemplatesSubMenu()
 	if (baseTemplatesSubMenu == undefined) return
@@ -448,7 +580,15 @@ function createDFSubMenu() {
 		name: translate('action.df.name'),
 		icon: 'diamond',
 		searchable: false,
-		children: [EXPORT_DF.get(), baseTemplatesSubMenu],
+		children: [
+			EXPORT_DF.get(),
+			EXPORT_DF_FORCE.get(),
+			EXPORT_DF_PLACE.get(),
+			EXPORT_DF_FILE.get(),
+			baseTemplatesSubMenu,
+			INSPECT_DF_TEMPLATES.get(),
+			TEST_CODECLIENT_CONNECTION.get(),
+		],
 	}
 }
 
@@ -466,7 +606,14 @@ registerDeletableHandlerPatch({
 		`animated_java:action/export-debug`,
 		`animated_java:action/export`,
 		`animated_java:action/export-df`,
+		`animated_java:action/export-df-force`,
+		`animated_java:action/export-df-file`,
+		`animated_java:action/export-df-place`,
+		`animated_java:action/inspect-df-templates`,
+		`animated_java:action/test-codeclient-connection`,
 		DF_BASE_TEMPLATES_ALL_ACTION_ID,
+		DF_BASE_TEMPLATES_PLACE_ALL_ACTION_ID,
+		DF_BASE_TEMPLATES_CHECK_ACTION_ID,
 		...DF_BASE_TEMPLATE_CATEGORY_DETAILS.map(details => details.actionId),
 		...DF_BASE_HELPER_DEFINITIONS.map(getDFTemplateActionId),
 	],
@@ -0,0 +1,115 @@
+import { registerPatch } from 'blockbench-patch-manager'
+import {
+	CODECLIENT_SESSION,
+	CodeClientError,
+	type CodeClientSessionOptions,
+	DEFAULT_CODECLIENT_SESSION_OPTIONS,
+} from '../systems/df/codeclientSession'
+import { localize as translate } from '../util/lang'
+
+const SETTINGS_CATEGORY = 'animated_java'
+
+const CODECLIENT_URL_SETTING = 'animated_java_codeclient_url'
+const CODECLIENT_POST_SEND_RESPONSE_WINDOW_SETTING =
+	'animated_java_codeclient_post_send_response_window'
+const CODECLIENT_INTER_GIVE_COMMAND_DELAY_SETTING =
+	'animated_java_codeclient_inter_give_command_delay'
+
+function getNumberSetting(id: string, fallback: number) {
+	const value = Number(Settings.get(id))
+	return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function getCodeClientSettings(): Pick<
+	Required<CodeClientSessionOptions>,
+	'url' | 'postSendResponseWindowMs' | 'interGiveCommandDelayMs'
+> {
+	const url = String(Settings.get(CODECLIENT_URL_SETTING) ?? '').trim()
+	return {
+		url: url || DEFAULT_CODECLIENT_SESSION_OPTIONS.url,
+		postSendResponseWindowMs: getNumberSetting(
+			CODECLIENT_POST_SEND_RESPONSE_WINDOW_SETTING,
+			DEFAULT_CODECLIENT_SESSION_OPTIONS.postSendResponseWindowMs
+		),
+		interGiveCommandDelayMs: getNumberSetting(
+			CODECLIENT_INTER_GIVE_COMMAND_DELAY_SETTING,
+			DEFAULT_CODECLIENT_SESSION_OPTIONS.interGiveCommandDelayMs
+		),
+	}
+}
+
+function applyCodeClientSettings() {
+	CODECLIENT_SESSION.configure(getCodeClientSettings())
+}
+
+export async function testCodeClientConnection() {
+	const { url } = getCodeClientSettings()
+	try {
+		const status = await CODECLIENT_SESSION.testConnection()
+		Blockbench.showMessageBox({
+			title: translate('dialog.codeclient_connection.title'),
+			message: status.mode
+				? translate('dialog.codeclient_connection.connected_mode', url, status.mode)
+				: translate('dialog.codeclient_connection.connected', url),
+			icon: 'check_circle',
+		})
+	} catch (error) {
+		console.error(error)
+		Blockbench.showMessageBox({
+			title: translate('dialog.codeclient_connection.title'),
+			message:
+				error instanceof CodeClientError
+					? error.message
+					: translate('dialog.codeclient_connection.failed', url),
+			icon: 'error',
+		})
+	}
+}
+
+registerPatch({
+	id: 'animated_java:settings/codeclient',
+
+	apply: () => {
+		Settings.addCategory(SETTINGS_CATEGORY, { name: translate('settings.category') })
+
+		const settings = [
+			new Setting(CODECLIENT_URL_SETTING, {
+				name: translate('settings.codeclient_url.name'),
+				description: translate('settings.codeclient_url.description'),
+				category: SETTINGS_CATEGORY,
+				type: 'text',
+				value: DEFAULT_CODECLIENT_SESSION_OPTIONS.url,
+				onChange: applyCodeClientSettings,
+			}),
+			new Setting(CODECLIENT_POST_SEND_RESPONSE_WINDOW_SETTING, {
+				name: translate('settings.codeclient_post_send_response_window.name'),
+				description: translate('settings.codeclient_post_send_response_window.description'),
+				category: SETTINGS_CATEGORY,
+				type: 'number',
+				value: DEFAULT_CODECLIENT_SESSION_OPTIONS.postSendResponseWindowMs,
+				min: 0,
+				step: 100,
+				onChange: applyCodeClientSettings,
+			}),
+			new Setting(CODECLIENT_INTER_GIVE_COMMAND_DELAY_SETTING, {
+				name: translate('settings.codeclient_inter_give_command_delay.name'),
+				description: translate('settings.codeclient_inter_give_command_delay.description'),
+				category: SETTINGS_CATEGORY,
+				type: 'number',
+				value: DEFAULT_CODECLIENT_SESSION_OPTIONS.interGiveCommandDelayMs,
+				min: 0,
+				step: 10,
+				onChange: applyCodeClientSettings,
+			}),
+		]
+		applyCodeClientSettings()
+
+		return { settings }
+	},
+
+	revert: ({ settings }) => {
+		settings.forEach(setting => setting.delete())
+		delete Settings.structure[SETTINGS_CATEGORY]
+		CODECLIENT_SESSION.close()
+	},
+})
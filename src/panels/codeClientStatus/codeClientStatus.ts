@@ -0,0 +1,23 @@
+import { registerPatch } from 'blockbench-patch-manager'
+import { injectComponent } from 'svelte-patching-tools'
+import CodeClientStatus from './codeClientStatus.svelte'
+
+registerPatch({
+	id: 'animated_java:status-bar/codeclient-status',
+
+	apply: () => {
+		const unmount = injectComponent({
+			component: CodeClientStatus,
+			props: {},
+			elementSelector() {
+				return document.getElementById('status_bar')
+			},
+		})
+
+		return { unmount }
+	},
+
+	revert: async ({ unmount }) => {
+		await unmount()
+	},
+})
@@ -0,0 +1,239 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	callFunction,
+	type DFArgumentValue,
+	debugMessage,
+	defineSourceTemplate,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	returnFromFunction,
+	setVariable,
+	text,
+	variable,
+} from './codeBlocks'
+import { ANIMATION_DATA_PREFIX, ANIMATION_DATA_VERSION } from './dfdata'
+import type { CodeBlock } from './types'
+
+// Animations exported before the data header was added store every value as three characters
+const LEGACY_VALUE_WIDTH = 3
+const LEGACY_VALUE_OFFSET = 64 * 128 * 128 + 64 * 128 + 64
+
+const RUN_LENGTH_OFFSET = LEGACY_VALUE_OFFSET
+
+const byte = (position: string) => `%index(bytes,%math(${position}))`
+// Header characters and digits are stored with an offset of 64
+const digit = (position: string) => `%math(${byte(position)}-64)`
+
+/**
+ * Returns a `%math` expression that decodes the three character value starting at `offset`
+ * (1-based) of the record `%var(i)`. DF evaluates `%math` from left to right.
+ */
+function legacyDecodedValue(recordSize: number, offset: number): string {
+	const at = (index: number) => byte(`%var(i)*${recordSize}+${offset + index}`)
+	return `%math(${at(2)}*128+${at(1)}*128+${at(0)}-${LEGACY_VALUE_OFFSET}/1000)`
+}
+
+function signed(action: string, args: DFArgumentValue[], tags = {}): CodeBlock {
+	return setVariable(action, args, { tags: { ...tags, Signed: 'True' } })
+}
+
+/**
+ * Reads the header written by `encodeAnimationFrames` in dfdata.ts into the `widths` and
+ * `divisors` lists, and leaves `position` at the last character of the header.
+ */
+const READ_HEADER = [
+	setVariable('=', [variable('version'), number(digit('1'))]),
+	...ifVariable(
+		'!=',
+		[variable('version'), number(ANIMATION_DATA_VERSION)],
+		[
+			debugMessage(
+				`Animation data version <white>%var(version) <reset>is not supported, expected version <white>${ANIMATION_DATA_VERSION}<reset>. Update the base templates and export the model again.`,
+				'Error'
+			),
+			returnFromFunction(),
+		]
+	),
+	setVariable('=', [variable('channels'), number(digit('2'))]),
+	setVariable('CreateList', [variable('widths')]),
+	setVariable('CreateList', [variable('divisors')]),
+	...repeat(
+		' Range ',
+		[variable('c'), number(1), variable('channels')],
+		[
+			setVariable('AppendValue', [variable('widths'), number(digit('%var(c)*2+2'))]),
+			setVariable('=', [variable('divisor'), number(1)]),
+			...repeat(
+				'Multiple',
+				[variable('n'), number(digit('%var(c)*2+1'))],
+				[setVariable('=', [variable('divisor'), number('%math(%var(divisor)*10)')])]
+			),
+			setVariable('AppendValue', [variable('divisors'), variable('divisor')]),
+		]
+	),
+	setVariable('=', [variable('position'), number('%math(%var(channels)*2+2)')]),
+]
+
+// Decodes the channel `%var(c)` of the record at `%var(position)` into `value`
+const READ_CHANNEL = [
+	setVariable('=', [variable('width'), number('%index(widths,%var(c))')]),
+	setVariable('=', [variable('value'), number(0)]),
+	setVariable('=', [variable('place'), number(1)]),
+	...repeat(
+		'Multiple',
+		[variable('k'), variable('width')],
+		[
+			setVariable('=', [
+				variable('value'),
+				number(`%math(${digit('%var(position)+%var(k)')}*%var(place)+%var(value))`),
+			]),
+			setVariable('=', [variable('place'), number('%math(%var(place)*128)')]),
+		]
+	),
+	setVariable('=', [variable('position'), number('%math(%var(position)+%var(width))')]),
+	setVariable('=', [variable('value'), number('%math(%var(value)/%index(divisors,%var(c)))')]),
+]
+
+/**
+ * Decodes animation data into a list with one entry per frame. Supports both the data with a
+ * header and sparse `run length, frame` records, and the older data with one record per frame.
+ * `afterFrame` runs after every frame of data with a header was read into `listName`.
+ */
+function decodeFrames(
+	listName: string,
+	legacyValueCount: number,
+	afterFrame: CodeBlock[] = []
+): CodeBlock[] {
+	const legacyFrameSize = legacyValueCount * LEGACY_VALUE_WIDTH
+
+	return [
+		setVariable('=', [variable('data'), variable('animationData')]),
+		setVariable('=', [variable('legacy'), number(1)]),
+		...ifVariable(
+			'StartsWith',
+			[variable('data'), text(ANIMATION_DATA_PREFIX)],
+			[
+				setVariable('TrimString', [variable('data'), variable('data'), number(2)]),
+				setVariable('=', [variable('legacy'), number(0)]),
+			]
+		),
+		signed('StringToBytes', [variable('bytes'), variable('data')], { Charset: 'UTF-8' }),
+		signed('Base64Decode', [variable('b64'), variable('bytes')]),
+		signed('GzipDecompress', [variable('bytes'), variable('b64')]),
+		setVariable('ListLength', [variable('len'), variable('bytes')]),
+		setVariable('CreateList', [variable('result')]),
+		...ifVariable(
+			'=',
+			[variable('legacy'), number(0)],
+			[
+				...READ_HEADER,
+				// Repeats until the last record was read
+				...repeat(
+					'While',
+					[variable('position'), variable('len')],
+					[
+						setVariable('=', [
+							variable('run'),
+							number(
+								`%math(${byte('%var(position)+3')}*128+${byte('%var(position)+2')}*128+${byte('%var(position)+1')}-${RUN_LENGTH_OFFSET})`
+							),
+						]),
+						setVariable('=', [variable('position'), number('%math(%var(position)+3)')]),
+						setVariable('CreateList', [variable(listName)]),
+						...repeat(
+							' Range ',
+							[variable('c'), number(1), variable('channels')],
+							[
+								...READ_CHANNEL,
+								setVariable('AppendValue', [variable(listName), variable('value')]),
+							]
+						),
+						...afterFrame,
+						...repeat(
+							'Multiple',
+							[variable('n'), variable('run')],
+							[setVariable('AppendValue', [variable('result'), variable(listName)])]
+						),
+					],
+					{ subAction: '<' }
+				),
+				returnFromFunction(),
+			]
+		),
+		...repeat(
+			' Range ',
+			[variable('i'), number(0), number(`%math(%var(len)/${legacyFrameSize}-1)`)],
+			[
+				setVariable('CreateList', [
+					variable(listName),
+					...Array.from({ length: legacyValueCount }, (_, index) =>
+						number(legacyDecodedValue(legacyFrameSize, 1 + index * LEGACY_VALUE_WIDTH))
+					),
+				]),
+				setVariable('AppendValue', [variable('result'), variable(listName)]),
+			]
+		),
+	]
+}
+
+// Translation, left rotation quaternion and scale, see `getTransformValues` in dfexporter.ts
+const TRS_CHANNEL_COUNT = 10
+
+// Splits the frame into the translation, left rotation and scale lists of `rig.composeMatrix`
+const COMPOSE_TRS_FRAME = [
+	...(
+		[
+			['translation', 1, 3],
+			['rotation', 4, 7],
+			['scale', 8, 10],
+		] as const
+	).map(([name, first, last]) =>
+		setVariable('CreateList', [
+			variable(name),
+			...Array.from({ length: last - first + 1 }, (_, index) =>
+				number(`%index(matrix,${first + index})`)
+			),
+		])
+	),
+	callFunction('rig.composeMatrix', [
+		variable('matrix'),
+		variable('translation'),
+		variable('rotation'),
+		variable('scale'),
+	]),
+]
+
+export const DF_DECODE_MATRICES_DEFINITION: DFHelperTemplateDefinition = defineSourceTemplate({
+	templateName: 'RigDecodeMatrices',
+	displayName: 'Decode Matrices',
+	functionName: 'rig.decodeMatrices',
+	category: 'core',
+	description: 'Decodes the matrices of the selected animation.',
+	usage: 3,
+	hidden: true,
+	parameters: [
+		parameter('result', 'var', { description: 'Result' }),
+		parameter('animationData', 'txt', { description: 'Animation data' }),
+	],
+	blocks: decodeFrames('matrix', 16, [
+		...ifVariable('=', [variable('channels'), number(TRS_CHANNEL_COUNT)], COMPOSE_TRS_FRAME),
+	]),
+})
+
+export const DF_DECODE_LOCATOR_TRANSFORMS_DEFINITION: DFHelperTemplateDefinition =
+	defineSourceTemplate({
+		templateName: 'RigDecodeLocatorTransforms',
+		displayName: 'Decode Locator Transforms',
+		functionName: 'rig.decodeLocatorTransforms',
+		category: 'core',
+		description: 'Decodes the locator transforms of the selected animation.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('animationData', 'txt', { description: 'Animation data' }),
+		],
+		blocks: decodeFrames('transform', 5),
+	})
@@ -0,0 +1,558 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	block,
+	callFunction,
+	debugMessage,
+	defineSourceTemplate,
+	gameValue,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	returnFromFunction,
+	setVariable,
+	text,
+	variable,
+} from './codeBlocks'
+import { DF_NODE_NAME_SEPARATOR } from './dfdata'
+import type { CodeBlock } from './types'
+
+// The last pose `rig.animate` applied to an instance, which `rig.tween` blends from
+export const INSTANCE_POSE_ANIM = variable('rig.%var(model).%var(id).pose.anim', 'unsaved')
+export const INSTANCE_POSE_FRAME = variable('rig.%var(model).%var(id).pose.frame', 'unsaved')
+
+// Set by `rig.tween` and `rig.tick` while an instance blends from its previous pose into another
+// animation. `weight` goes from 0 (the previous pose) to 1 (the new animation).
+export const TWEEN_ANIM = variable('rig.%var(model).%var(id).tween.anim', 'unsaved')
+export const TWEEN_FRAME = variable('rig.%var(model).%var(id).tween.frame', 'unsaved')
+export const TWEEN_WEIGHT = variable('rig.%var(model).%var(id).tween.weight', 'unsaved')
+
+const MODIFIED_NODES = variable('rig.%var(model).anim.%var(anim).@modified_nodes', 'unsaved')
+
+const ANIMATE: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	callFunction('rig.animate.noReset', [
+		variable('id'),
+		variable('model'),
+		variable('anim'),
+		variable('t'),
+		variable('interp'),
+		variable('layer'),
+	]),
+	block('select_obj', 'Reset', []),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('selection')],
+		[
+			block('select_obj', 'PlayerName', [variable('selection')]),
+			...ifVariable(
+				'=',
+				[gameValue('Selection Size'), number(0)],
+				[block('select_obj', 'EntityUUID', [variable('selection')])]
+			),
+		],
+		{ not: true }
+	),
+]
+
+const ANIMATE_NO_RESET: CodeBlock[] = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not exist.', 'Error'),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not have any nodes.', 'Error'),
+			returnFromFunction(),
+		]
+	),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.%var(anim).length', 'unsaved')],
+		[
+			...ifVariable(
+				'!=',
+				[variable('anim'), text('default')],
+				[
+					debugMessage(
+						'Model <white>%var(model) <reset>does not have animation <white>%var(anim)<reset>.',
+						'Error'
+					),
+				]
+			),
+			// Without a `default` animation the rig keeps its rest pose
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	setVariable('=', [variable('nodeIds'), variable('rig.%var(model).node_ids', 'unsaved')]),
+	...ifVariable(
+		'=',
+		[variable('layer'), number(0)],
+		[
+			...ifVariable(
+				'VarExists',
+				[TWEEN_WEIGHT],
+				[
+					setVariable('=', [variable('tweenAnim'), TWEEN_ANIM]),
+					setVariable('=', [variable('tweenFrame'), TWEEN_FRAME]),
+					setVariable('=', [variable('tweenWeight'), TWEEN_WEIGHT]),
+				]
+			),
+		],
+		{
+			// Layers only move the nodes their animation modifies, so the nodes of the animations
+			// below them keep their pose
+			orElse: [
+				...ifVariable(
+					'VarExists',
+					[MODIFIED_NODES],
+					[
+						...ifVariable(
+							'=',
+							[MODIFIED_NODES, text('')],
+							[setVariable('CreateList', [variable('nodeIds')])],
+							{
+								orElse: [
+									setVariable('SplitString', [
+										variable('nodeIds'),
+										MODIFIED_NODES,
+										text(DF_NODE_NAME_SEPARATOR),
+									]),
+								],
+							}
+						),
+					]
+				),
+			],
+		}
+	),
+	...repeat(
+		'ForEach',
+		[variable('node'), variable('nodeIds')],
+		[
+			callFunction('rig.loadAnimation', [
+				variable('matrix'),
+				variable('model'),
+				variable('anim'),
+				variable('node'),
+				number('%math(%var(t)%%var(rig.%var(model).anim.%var(anim).length)+1)'),
+			]),
+			// Blend from the previous pose, unless the node isn't animated in it
+			...ifVariable(
+				'VarExists',
+				[variable('tweenWeight')],
+				[
+					...ifVariable(
+						'VarExists',
+						[variable('rig.%var(model).anim.%var(tweenAnim).%var(node)', 'unsaved')],
+						[
+							callFunction('rig.loadAnimation', [
+								variable('tweenMatrix'),
+								variable('model'),
+								variable('tweenAnim'),
+								variable('node'),
+								variable('tweenFrame'),
+							]),
+							callFunction('rig.blendMatrices', [
+								variable('matrix'),
+								variable('tweenMatrix'),
+								variable('matrix'),
+								variable('tweenWeight'),
+							]),
+						]
+					),
+				]
+			),
+			...ifVariable(
+				'VarExists',
+				[variable('rig.%var(model).%var(id).%var(node).offsetMatrix', 'unsaved')],
+				[
+					setVariable('=', [
+						variable('offsetMatrix'),
+						variable('rig.%var(model).%var(id).%var(node).offsetMatrix', 'unsaved'),
+					]),
+					setVariable('CreateList', [
+						variable('matrix'),
+						number(
+							'%math(%math(%index(matrix,1)*%index(offsetMatrix,1))+%math(%index(matrix,2)*%index(offsetMatrix,5))+%math(%index(matrix,3)*%index(offsetMatrix,9))+%math(%index(matrix,4)*%index(offsetMatrix,13)))'
+						),
+						number(
+							'%math(%math(%index(matrix,1)*%index(offsetMatrix,2))+%math(%index(matrix,2)*%index(offsetMatrix,6))+%math(%index(matrix,3)*%index(offsetMatrix,10))+%math(%index(matrix,4)*%index(offsetMatrix,14)))'
+						),
+						number(
+							'%math(%math(%index(matrix,1)*%index(offsetMatrix,3))+%math(%index(matrix,2)*%index(offsetMatrix,7))+%math(%index(matrix,3)*%index(offsetMatrix,11))+%math(%index(matrix,4)*%index(offsetMatrix,15)))'
+						),
+						number(
+							'%math(%math(%index(matrix,1)*%index(offsetMatrix,4))+%math(%index(matrix,2)*%index(offsetMatrix,8))+%math(%index(matrix,3)*%index(offsetMatrix,12))+%math(%index(matrix,4)*%index(offsetMatrix,16)))'
+						),
+						number(
+							'%math(%math(%index(matrix,5)*%index(offsetMatrix,1))+%math(%index(matrix,6)*%index(offsetMatrix,5))+%math(%index(matrix,7)*%index(offsetMatrix,9))+%math(%index(matrix,8)*%index(offsetMatrix,13)))'
+						),
+						number(
+							'%math(%math(%index(matrix,5)*%index(offsetMatrix,2))+%math(%index(matrix,6)*%index(offsetMatrix,6))+%math(%index(matrix,7)*%index(offsetMatrix,10))+%math(%index(matrix,8)*%index(offsetMatrix,14)))'
+						),
+						number(
+							'%math(%math(%index(matrix,5)*%index(offsetMatrix,3))+%math(%index(matrix,6)*%index(offsetMatrix,7))+%math(%index(matrix,7)*%index(offsetMatrix,11))+%math(%index(matrix,8)*%index(offsetMatrix,15)))'
+						),
+						number(
+							'%math(%math(%index(matrix,5)*%index(offsetMatrix,4))+%math(%index(matrix,6)*%index(offsetMatrix,8))+%math(%index(matrix,7)*%index(offsetMatrix,12))+%math(%index(matrix,8)*%index(offsetMatrix,16)))'
+						),
+						number(
+							'%math(%math(%index(matrix,9)*%index(offsetMatrix,1))+%math(%index(matrix,10)*%index(offsetMatrix,5))+%math(%index(matrix,11)*%index(offsetMatrix,9))+%math(%index(matrix,12)*%index(offsetMatrix,13)))'
+						),
+						number(
+							'%math(%math(%index(matrix,9)*%index(offsetMatrix,2))+%math(%index(matrix,10)*%index(offsetMatrix,6))+%math(%index(matrix,11)*%index(offsetMatrix,10))+%math(%index(matrix,12)*%index(offsetMatrix,14)))'
+						),
+						number(
+							'%math(%math(%index(matrix,9)*%index(offsetMatrix,3))+%math(%index(matrix,10)*%index(offsetMatrix,7))+%math(%index(matrix,11)*%index(offsetMatrix,11))+%math(%index(matrix,12)*%index(offsetMatrix,15)))'
+						),
+						number(
+							'%math(%math(%index(matrix,9)*%index(offsetMatrix,4))+%math(%index(matrix,10)*%index(offsetMatrix,8))+%math(%index(matrix,11)*%index(offsetMatrix,12))+%math(%index(matrix,12)*%index(offsetMatrix,16)))'
+						),
+						number(
+							'%math(%math(%index(matrix,13)*%index(offsetMatrix,1))+%math(%index(matrix,14)*%index(offsetMatrix,5))+%math(%index(matrix,15)*%index(offsetMatrix,9))+%math(%index(matrix,16)*%index(offsetMatrix,13)))'
+						),
+						number(
+							'%math(%math(%index(matrix,13)*%index(offsetMatrix,2))+%math(%index(matrix,14)*%index(offsetMatrix,6))+%math(%index(matrix,15)*%index(offsetMatrix,10))+%math(%index(matrix,16)*%index(offsetMatrix,14)))'
+						),
+						number(
+							'%math(%math(%index(matrix,13)*%index(offsetMatrix,3))+%math(%index(matrix,14)*%index(offsetMatrix,7))+%math(%index(matrix,15)*%index(offsetMatrix,11))+%math(%index(matrix,16)*%index(offsetMatrix,15)))'
+						),
+						number(
+							'%math(%math(%index(matrix,13)*%index(offsetMatrix,4))+%math(%index(matrix,14)*%index(offsetMatrix,8))+%math(%index(matrix,15)*%index(offsetMatrix,12))+%math(%index(matrix,16)*%index(offsetMatrix,16)))'
+						),
+					]),
+				]
+			),
+			setVariable('=', [variable('%var(node)'), variable('matrix')]),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+	...repeat(
+		'ForEach',
+		[variable('locator'), variable('rig.%var(model).locator_ids', 'unsaved')],
+		[
+			...ifVariable(
+				'VarExists',
+				[variable('rig.%var(model).anim.%var(anim).%var(locator)', 'unsaved')],
+				[
+					callFunction('rig.loadLocatorAnimation', [
+						variable('locatorTransform'),
+						variable('model'),
+						variable('anim'),
+						variable('locator'),
+						number('%math(%var(t)%%var(rig.%var(model).anim.%var(anim).length)+1)'),
+					]),
+					setVariable('=', [
+						variable(
+							'rig.%var(model).%var(id).locators.%var(locator).transform',
+							'unsaved'
+						),
+						variable('locatorTransform'),
+					]),
+					callFunction('rig.updateLocator', [
+						variable('id'),
+						variable('model'),
+						variable('locator'),
+					]),
+				]
+			),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+	...ifVariable(
+		'=',
+		[variable('layer'), number(0)],
+		[
+			setVariable('=', [INSTANCE_POSE_ANIM, variable('anim')]),
+			setVariable('=', [
+				INSTANCE_POSE_FRAME,
+				number('%math(%var(t)%%var(rig.%var(model).anim.%var(anim).length)+1)'),
+			]),
+		]
+	),
+	// Like the data pack, only transforms are applied while tweening, so the keyframes of the frame
+	// the tween holds run once it is over
+	...ifVariable(
+		'VarExists',
+		[variable('tweenWeight')],
+		[
+			callFunction('rig.dispatchEvents', [
+				variable('id'),
+				variable('model'),
+				variable('anim'),
+				variable('t'),
+			]),
+			callFunction('rig.applyVariantKeyframes', [
+				variable('id'),
+				variable('model'),
+				variable('anim'),
+				variable('t'),
+			]),
+		],
+		{ not: true }
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('rig.%var(model).node_ids', 'unsaved')],
+		[returnFromFunction()]
+	),
+	setVariable('GetDictValues', [
+		variable('entities'),
+		variable('rig.%var(model).%var(id).entities', 'unsaved'),
+	]),
+	block('select_obj', 'EntityUUID', [variable('entities')]),
+	...ifVariable(
+		'=',
+		[gameValue('Selection Size'), number(0)],
+		[
+			debugMessage(
+				'Instance <white>%var(id) <reset>of model <white>%var(model) <reset>does not exist.',
+				'Error'
+			),
+			returnFromFunction(),
+		]
+	),
+	block('entity_action', 'GetCustomTag', [variable('%uuid node'), variable('model')], {
+		target: 'Selection',
+	}),
+	block('select_obj', 'FilterCondition', [text('%var(%var(%uuid node))'), text('0'), number(0)], {
+		not: true,
+		subAction: '=',
+	}),
+	block('select_obj', 'FilterCondition', [text('last'), text('%var(%var(%uuid node))')], {
+		not: true,
+		subAction: 'HasCustomTag',
+	}),
+	block('entity_action', 'SetCustomTag', [text('last'), text('%var(%var(%uuid node))')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'DispInterpolation', [variable('interp')], { target: 'Selection' }),
+	block('entity_action', 'DisplayMatrix', [variable('%var(%uuid node)')], {
+		target: 'Selection',
+	}),
+]
+
+const LOAD_ANIMATION: CodeBlock[] = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).c.%var(anim).%var(node)', 'unsaved')],
+		[
+			callFunction('rig.decodeMatrices', [
+				variable('rig.%var(model).c.%var(anim).%var(node)', 'unsaved'),
+				variable('rig.%var(model).anim.%var(anim).%var(node)', 'unsaved'),
+			]),
+		],
+		{ not: true }
+	),
+	setVariable('GetListValue', [
+		variable('result'),
+		variable('rig.%var(model).c.%var(anim).%var(node)', 'unsaved'),
+		variable('frame'),
+	]),
+]
+
+const LOAD_LOCATOR_ANIMATION: CodeBlock[] = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).lc.%var(anim).%var(locator)', 'unsaved')],
+		[
+			callFunction('rig.decodeLocatorTransforms', [
+				variable('rig.%var(model).lc.%var(anim).%var(locator)', 'unsaved'),
+				variable('rig.%var(model).anim.%var(anim).%var(locator)', 'unsaved'),
+			]),
+		],
+		{ not: true }
+	),
+	setVariable('GetListValue', [
+		variable('result'),
+		variable('rig.%var(model).lc.%var(anim).%var(locator)', 'unsaved'),
+		variable('frame'),
+	]),
+]
+
+const UPDATE_LOCATOR: CodeBlock[] = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).%var(id).locators.%var(locator).origin', 'unsaved')],
+		[returnFromFunction()],
+		{ not: true }
+	),
+	setVariable('=', [
+		variable('loc'),
+		variable('rig.%var(model).%var(id).locators.%var(locator).origin', 'unsaved'),
+	]),
+	setVariable('ShiftAllDirections', [
+		variable('loc'),
+		variable('loc'),
+		number('%index(rig.%var(model).%var(id).locators.%var(locator).transform,3)'),
+		number('%index(rig.%var(model).%var(id).locators.%var(locator).transform,2)'),
+		number('%index(rig.%var(model).%var(id).locators.%var(locator).transform,1)'),
+	]),
+	setVariable(
+		'ShiftRotation',
+		[
+			variable('loc'),
+			variable('loc'),
+			number('%index(rig.%var(model).%var(id).locators.%var(locator).transform,4)'),
+		],
+		{ tags: { 'Rotation Axis': 'Pitch' } }
+	),
+	setVariable(
+		'ShiftRotation',
+		[
+			variable('rig.%var(model).%var(id).locators.%var(locator).location', 'unsaved'),
+			variable('loc'),
+			number('%index(rig.%var(model).%var(id).locators.%var(locator).transform,5)'),
+		],
+		{ tags: { 'Rotation Axis': 'Yaw' } }
+	),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).%var(id).locators.%var(locator).entity', 'unsaved')],
+		[
+			setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+			block('select_obj', 'EntityUUID', [
+				variable('rig.%var(model).%var(id).locators.%var(locator).entity', 'unsaved'),
+			]),
+			block(
+				'entity_action',
+				'Teleport',
+				[variable('rig.%var(model).%var(id).locators.%var(locator).location', 'unsaved')],
+				{ tags: { 'Keep Current Rotation': 'False' }, target: 'Selection' }
+			),
+			block('select_obj', 'Reset', []),
+			...ifVariable(
+				'ValueIsEmpty',
+				[variable('selection')],
+				[
+					block('select_obj', 'PlayerName', [variable('selection')]),
+					...ifVariable(
+						'=',
+						[gameValue('Selection Size'), number(0)],
+						[block('select_obj', 'EntityUUID', [variable('selection')])]
+					),
+				],
+				{ not: true }
+			),
+		]
+	),
+]
+
+export const DF_ANIMATION_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'RigAnimate',
+		displayName: 'Animate',
+		functionName: 'rig.animate',
+		category: 'core',
+		description:
+			'Sets the rig to the specified ticks pose.\nResets the selection and restores your previous selection.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('t', 'num', { description: 'Time in ticks' }),
+			parameter('interp', 'num', {
+				description: 'Interpolation in ticks',
+				optional: true,
+				defaultValue: number(1),
+			}),
+			parameter('layer', 'num', {
+				description: 'Layer',
+				optional: true,
+				defaultValue: number(0),
+				note: 'When not 0, only the nodes the animation modifies are moved.',
+			}),
+		],
+		blocks: ANIMATE,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigAnimateNoReset',
+		displayName: 'Animate No Reset',
+		functionName: 'rig.animate.noReset',
+		category: 'core',
+		description:
+			'Sets the rig to the specified ticks pose.\nKeeps the rig-entities selection active after animating.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('t', 'num', { description: 'Time in ticks' }),
+			parameter('interp', 'num', {
+				description: 'Interpolation in ticks',
+				optional: true,
+				defaultValue: number(1),
+			}),
+			parameter('layer', 'num', {
+				description: 'Layer',
+				optional: true,
+				defaultValue: number(0),
+				note: 'When not 0, only the nodes the animation modifies are moved.',
+			}),
+		],
+		blocks: ANIMATE_NO_RESET,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigLoadAnimation',
+		displayName: 'Load Animation',
+		functionName: 'rig.loadAnimation',
+		category: 'core',
+		description: 'Loads the pose of the specified node for the selected animation.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('node', 'txt', { description: 'Node' }),
+			parameter('frame', 'num', {
+				description: 'Frame',
+				optional: true,
+				defaultValue: number(1),
+			}),
+		],
+		blocks: LOAD_ANIMATION,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigLoadLocatorAnimation',
+		displayName: 'Load Locator Animation',
+		functionName: 'rig.loadLocatorAnimation',
+		category: 'core',
+		description: 'Loads the transform of the specified locator for the selected animation.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('locator', 'txt', { description: 'Locator ID' }),
+			parameter('frame', 'num', { description: 'Frame' }),
+		],
+		blocks: LOAD_LOCATOR_ANIMATION,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigUpdateLocator',
+		displayName: 'Update Locator',
+		functionName: 'rig.updateLocator',
+		category: 'core',
+		description: 'Updates the stored location value for a rig locator.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('locator', 'txt', { description: 'Locator ID' }),
+		],
+		blocks: UPDATE_LOCATOR,
+	}),
+]
@@ -0,0 +1,134 @@
+import { compareVersions } from '../../util/version'
+import {
+	DF_RIG_FORMAT_REQUIREMENTS,
+	DF_RIG_FORMAT_VERSION,
+	DF_TEMPLATE_MARKER_KEYS,
+	getDFBaseTemplateVersion,
+	readTemplateMarker,
+} from './baseTemplateVersions'
+import {
+	type DFBaseTemplateCategory,
+	getDFBaseTemplateDefinitions,
+	getDFBaseTemplateFunctionName,
+	getDFBaseTemplateHash,
+} from './baseTemplates'
+import { DF_DEFAULT_FUNCTION_NAMESPACE, getDFInitFunctionPrefix } from './dfdata'
+import type { DecodedDFTemplate } from './templateDecoder'
+
+export type DFBaseTemplateStatus =
+	/** The placed template is the one this version of the plugin sends */
+	| 'up_to_date'
+	/** The placed template is an older version */
+	| 'outdated'
+	/** The placed template has the current version but was sent with different code */
+	| 'modified'
+	/** The placed template was sent by a newer version of the plugin */
+	| 'newer'
+	/** The placed template was sent before base templates were versioned */
+	| 'unversioned'
+	| 'missing'
+
+export interface DFBaseTemplateReportEntry {
+	templateName: string
+	functionName: string
+	category: DFBaseTemplateCategory
+	currentVersion: string
+	placedVersion?: string
+	status: DFBaseTemplateStatus
+	/** The rig format needs a newer version of this template than the one placed */
+	incompatible: boolean
+}
+
+export interface DFRigFormatReportEntry {
+	functionName: string
+	/** Missing when the rig was exported before the rig format was versioned */
+	rigFormat?: number
+}
+
+export interface DFBaseTemplateReport {
+	entries: DFBaseTemplateReportEntry[]
+	/** `<namespace>.init` templates exported with a different rig format than the current one */
+	outdatedRigs: DFRigFormatReportEntry[]
+}
+
+function getPlacedStatus(
+	placed: DecodedDFTemplate,
+	currentVersion: string,
+	currentHash: string
+): Pick<DFBaseTemplateReportEntry, 'placedVersion' | 'status'> {
+	const marker = readTemplateMarker(placed.template.blocks)
+	const placedVersion = marker[DF_TEMPLATE_MARKER_KEYS.version]
+	if (!placedVersion) return { status: 'unversioned' }
+
+	const comparison = compareVersions(placedVersion, currentVersion)
+	if (comparison < 0) return { placedVersion, status: 'outdated' }
+	if (comparison > 0) return { placedVersion, status: 'newer' }
+
+	// DF rewrites items when templates are placed, so the hash sent along with the template is
+	// compared instead of hashing the placed blocks again.
+	if (marker[DF_TEMPLATE_MARKER_KEYS.hash] !== currentHash) {
+		return { placedVersion, status: 'modified' }
+	}
+	return { placedVersion, status: 'up_to_date' }
+}
+
+/**
+ * Compares the templates placed on a plot with the base templates this version of the plugin
+ * sends, and checks that the placed templates can read rigs exported with the current rig format.
+ */
+export function buildDFBaseTemplateReport(
+	placed: DecodedDFTemplate[],
+	namespace = DF_DEFAULT_FUNCTION_NAMESPACE
+): DFBaseTemplateReport {
+	const entries: DFBaseTemplateReportEntry[] = []
+
+	for (const definition of getDFBaseTemplateDefinitions()) {
+		const functionName = getDFBaseTemplateFunctionName(definition, namespace)
+		const currentVersion = getDFBaseTemplateVersion(definition.templateName)
+		const placedTemplate =
+			placed.find(
+				template =>
+					readTemplateMarker(template.template.blocks)[
+						DF_TEMPLATE_MARKER_KEYS.template
+					] === definition.templateName
+			) ?? placed.find(template => template.functionName === functionName)
+
+		const { placedVersion, status } = placedTemplate
+			? getPlacedStatus(placedTemplate, currentVersion, getDFBaseTemplateHash(definition))
+			: { placedVersion: undefined, status: 'missing' as const }
+
+		const requiredVersion = DF_RIG_FORMAT_REQUIREMENTS[definition.templateName]
+		entries.push({
+			templateName: definition.templateName,
+			functionName,
+			category: definition.category,
+			currentVersion,
+			placedVersion,
+			status,
+			incompatible:
+				requiredVersion != undefined &&
+				status !== 'missing' &&
+				(placedVersion == undefined || compareVersions(placedVersion, requiredVersion) < 0),
+		})
+	}
+
+	const initFunctionPrefix = getDFInitFunctionPrefix(namespace)
+	const outdatedRigs: DFRigFormatReportEntry[] = []
+	for (const template of placed) {
+		const functionName = template.functionName
+		if (!functionName?.startsWith(initFunctionPrefix)) continue
+
+		// `<namespace>.init.rig` and `<namespace>.init.rigs` are base templates
+		if (entries.some(entry => entry.functionName === functionName)) continue
+
+		const value = readTemplateMarker(template.template.blocks)[
+			DF_TEMPLATE_MARKER_KEYS.rigFormat
+		]
+		const rigFormat = value == undefined ? undefined : Number(value)
+		if (rigFormat !== DF_RIG_FORMAT_VERSION) {
+			outdatedRigs.push({ functionName, rigFormat })
+		}
+	}
+
+	return { entries, outdatedRigs }
+}
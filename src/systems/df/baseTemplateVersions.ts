@@ -0,0 +1,158 @@
+import * as crypto from 'node:crypto'
+import { parseBukkitValues } from './templateDecoder'
+import type { CodeBlock } from './types'
+
+/**
+ * Version of the data `rig.init.<model>` templates are exported with. Bump it whenever the layout
+ * of the exported nodes, animations or variants changes, and update
+ * {@link DF_RIG_FORMAT_REQUIREMENTS} to the base templates that can read the new layout.
+ */
+export const DF_RIG_FORMAT_VERSION = 7
+
+/**
+ * Semantic version of every base template. Bump the major version when a template can no longer
+ * be called the way it was before, the minor version when it gains features and the patch version
+ * for fixes.
+ */
+export const DF_BASE_TEMPLATE_VERSIONS: Record<string, string> = {
+	RigInitRig: '1.1.0',
+	RigInitRigs: '1.0.0',
+	RigSpawn: '1.1.0',
+	RigSpawnNodes: '1.2.0',
+	RigAnimate: '1.3.0',
+	RigAnimateNoReset: '1.4.1',
+	RigLoadAnimation: '1.1.0',
+	RigLoadLocatorAnimation: '1.1.0',
+	RigDecodeMatrices: '2.0.0',
+	RigDecodeLocatorTransforms: '2.0.0',
+	RigUpdateLocator: '1.1.0',
+	RigSelectNodes: '1.0.0',
+	RigMove: '1.0.0',
+	RigRemove: '1.0.0',
+	RigSetVariant: '1.1.0',
+	ApplyOffsetMatrix: '1.0.0',
+	ApplyOffset: '1.0.0',
+	RemoveOffset: '1.0.0',
+	RigComposeMatrix: '1.0.0',
+	RigBlendMatrices: '1.0.0',
+	RigConvertDisplayData: '1.0.0',
+	RigSetTextDisplayData: '1.0.0',
+	RigSetItemDisplayData: '1.0.0',
+	RigSetBlockDisplayData: '1.0.0',
+	RigSetGenericDisplayData: '1.0.0',
+	RigDecodeKeyframes: '1.0.0',
+	RigLoadKeyframes: '1.0.0',
+	RigDispatchEvents: '1.0.0',
+	RigApplyVariantKeyframes: '1.1.0',
+	RigPlay: '1.1.0',
+	RigTween: '1.0.0',
+	RigTick: '1.2.0',
+	RigTickTrack: '1.0.0',
+	RigPlayLayer: '1.0.0',
+	RigStopLayer: '1.0.0',
+	RigStop: '1.1.0',
+	RigIsPlaying: '1.0.0',
+}
+
+/**
+ * The oldest version of every base template that reads rigs exported with
+ * {@link DF_RIG_FORMAT_VERSION}.
+ */
+export const DF_RIG_FORMAT_REQUIREMENTS: Record<string, string> = {
+	RigSpawnNodes: '1.1.0',
+	RigAnimate: '1.2.0',
+	RigAnimateNoReset: '1.2.0',
+	RigDecodeMatrices: '2.0.0',
+	RigDecodeLocatorTransforms: '2.0.0',
+	RigUpdateLocator: '1.1.0',
+	RigSetVariant: '1.1.0',
+}
+
+/** `hypercube:*` values stored on the function icon of the templates Animated Java sends */
+export const DF_TEMPLATE_MARKER_KEYS = {
+	template: 'aj_template',
+	version: 'aj_version',
+	hash: 'aj_hash',
+	rigFormat: 'aj_rig_format',
+} as const
+
+export function getDFBaseTemplateVersion(templateName: string): string {
+	const version = DF_BASE_TEMPLATE_VERSIONS[templateName]
+	if (!version) {
+		throw new Error(`DF base template "${templateName}" has no version.`)
+	}
+	return version
+}
+
+export function hashTemplateBlocks(blocks: CodeBlock[]): string {
+	return crypto.createHash('sha256').update(JSON.stringify(blocks)).digest('hex').slice(0, 16)
+}
+
+function escapeSnbtString(value: string) {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+/**
+ * Adds the marker values to the custom data of a function icon item.
+ */
+export function markTemplateIcon(itemSnbt: string, marker: Record<string, string>): string {
+	const bukkitValues = Object.entries(marker)
+		.map(([key, value]) => `"hypercube:${escapeSnbtString(key)}":"${escapeSnbtString(value)}"`)
+		.join(',')
+	return itemSnbt.replace(
+		/components:\{(\}?)/,
+		(_, end: string) =>
+			`components:{"minecraft:custom_data":{PublicBukkitValues:{${bukkitValues}}}${end || ','}`
+	)
+}
+
+function getFunctionIcon(blocks: CodeBlock[]) {
+	const functionBlock = blocks[0]
+	if (functionBlock?.block !== 'func') return
+	return functionBlock.args?.items?.find(
+		argument => argument.slot === 0 && argument.item.id === 'item'
+	)
+}
+
+/**
+ * Returns a copy of the blocks with the marker values on the icon of the function block.
+ * Templates without a function icon are returned unchanged.
+ */
+export function markTemplate(blocks: CodeBlock[], marker: Record<string, string>): CodeBlock[] {
+	const icon = getFunctionIcon(blocks)
+	if (!icon) return blocks
+
+	const [functionBlock, ...rest] = blocks
+	return [
+		{
+			...functionBlock,
+			args: {
+				...functionBlock.args,
+				items: functionBlock.args!.items!.map(argument =>
+					argument === icon
+						? {
+								...argument,
+								item: {
+									...argument.item,
+									data: {
+										...argument.item.data,
+										item: markTemplateIcon(
+											String(argument.item.data.item),
+											marker
+										),
+									},
+								},
+							}
+						: argument
+				),
+			},
+		},
+		...rest,
+	]
+}
+
+export function readTemplateMarker(blocks: CodeBlock[]): Record<string, string> {
+	const icon = getFunctionIcon(blocks)
+	if (!icon) return {}
+	return parseBukkitValues(String(icon.item.data?.item ?? ''))
+}
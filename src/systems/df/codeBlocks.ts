@@ -0,0 +1,248 @@
+import type { DFBaseTemplateCategory, DFHelperTemplateDefinition } from './baseTemplates'
+import type { CodeBlock, CodeBlockArgument } from './types'
+
+// Small constructors for writing DiamondFire code blocks by hand.
+// Block and action ids follow the names used in exported DF templates.
+
+export type DFVariableScope = 'line' | 'local' | 'unsaved' | 'saved'
+
+export type DFParameterType =
+	| 'any'
+	| 'txt'
+	| 'comp'
+	| 'num'
+	| 'loc'
+	| 'vec'
+	| 'var'
+	| 'list'
+	| 'dict'
+
+export type DFArgumentValue = CodeBlockArgument['item']
+
+/**
+ * The stack count shown on a function icon, used as a usage hint.
+ * - `1`: Setup functions
+ * - `2`: Runtime helpers
+ * - `3`: Internal helpers
+ */
+export type DFFunctionUsage = 1 | 2 | 3
+
+type DFBracketType = 'norm' | 'repeat'
+
+/** A tag whose option is read from a variable, falling back to `option` */
+interface DFVariableTagOption {
+	option: string
+	variable: DFArgumentValue
+}
+
+interface DFBlockOptions {
+	tags?: Record<string, string | DFVariableTagOption>
+	not?: boolean
+	target?: string
+	subAction?: string
+}
+
+interface DFSourceTemplateOptions {
+	templateName: string
+	displayName: string
+	functionName: string
+	category: DFBaseTemplateCategory
+	description: string
+	usage: DFFunctionUsage
+	hidden?: boolean
+	/** Makes the function icon glint, used to set helpers apart in the code space */
+	glint?: boolean
+	parameters: DFArgumentValue[]
+	blocks: CodeBlock[]
+}
+
+interface DFParameterOptions {
+	description: string
+	optional?: boolean
+	plural?: boolean
+	defaultValue?: DFArgumentValue
+	note?: string
+}
+
+const TAG_SLOT_LIMIT = 27
+
+function escapeSnbtString(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+export function variable(name: string, scope: DFVariableScope = 'line'): DFArgumentValue {
+	return { id: 'var', data: { name, scope } }
+}
+
+export function text(value: string): DFArgumentValue {
+	return { id: 'txt', data: { name: value } }
+}
+
+export function styledText(value: string): DFArgumentValue {
+	return { id: 'comp', data: { name: value } }
+}
+
+export function number(value: number | string): DFArgumentValue {
+	return { id: 'num', data: { name: String(value) } }
+}
+
+export function gameValue(type: string, target = 'Default'): DFArgumentValue {
+	return { id: 'g_val', data: { type, target } }
+}
+
+export function parameter(
+	name: string,
+	type: DFParameterType,
+	options: DFParameterOptions
+): DFArgumentValue {
+	return {
+		id: 'pn_el',
+		data: {
+			name,
+			type,
+			plural: options.plural ?? false,
+			optional: options.optional ?? false,
+			...(options.defaultValue ? { default_value: options.defaultValue } : {}),
+			description: options.description,
+			...(options.note ? { note: options.note } : {}),
+		},
+	}
+}
+
+export function functionIcon(
+	displayName: string,
+	description: string,
+	usage: DFFunctionUsage,
+	glint = false
+): DFArgumentValue {
+	const lore = description
+		.split(/\r?\n/)
+		.map(
+			line =>
+				`{bold:0b,color:"white",extra:[{color:"gray",text:"${escapeSnbtString(line)}"}],italic:0b,obfuscated:0b,strikethrough:0b,text:"",underlined:0b}`
+		)
+		.join(',')
+	return {
+		id: 'item',
+		data: {
+			item: `{DF_NBT:4671,components:{"minecraft:custom_name":{extra:[{color:"#6DC7E9",text:"${escapeSnbtString(displayName)}"}],italic:0b,text:""},${glint ? '"minecraft:enchantment_glint_override":1b,' : ''}"minecraft:lore":[${lore}]},count:${usage},id:"minecraft:sniffer_egg"}`,
+		},
+	}
+}
+
+export function slotted(values: DFArgumentValue[]): CodeBlockArgument[] {
+	return values.map((item, slot) => ({ item, slot }))
+}
+
+export function block(
+	blockId: string,
+	action: string,
+	args: DFArgumentValue[] = [],
+	options: DFBlockOptions = {}
+): CodeBlock {
+	const items = slotted(args)
+	const tags = Object.entries(options.tags ?? {})
+	tags.forEach(([tag, value], index) => {
+		const data =
+			typeof value === 'string'
+				? { option: value, tag, action, block: blockId }
+				: { option: value.option, tag, action, block: blockId, variable: value.variable }
+		items.push({ item: { id: 'bl_tag', data }, slot: TAG_SLOT_LIMIT - tags.length + index })
+	})
+
+	return {
+		id: 'block',
+		block: blockId,
+		action,
+		args: { items },
+		...(options.not ? { attribute: 'NOT' } : {}),
+		...(options.target ? { target: options.target } : {}),
+		...(options.subAction ? { subAction: options.subAction } : {}),
+	}
+}
+
+export function callFunction(name: string, args: DFArgumentValue[] = []): CodeBlock {
+	return {
+		id: 'block',
+		block: 'call_func',
+		data: name,
+		args: { items: slotted(args) },
+	}
+}
+
+function bracketed(body: CodeBlock[], type: DFBracketType): CodeBlock[] {
+	return [
+		{ id: 'bracket', direct: 'open', type },
+		...body,
+		{ id: 'bracket', direct: 'close', type },
+	]
+}
+
+export function ifVariable(
+	action: string,
+	args: DFArgumentValue[],
+	body: CodeBlock[],
+	options: DFBlockOptions & { orElse?: CodeBlock[] } = {}
+): CodeBlock[] {
+	const blocks = [block('if_var', action, args, options), ...bracketed(body, 'norm')]
+	if (options.orElse) {
+		blocks.push({ id: 'block', block: 'else' }, ...bracketed(options.orElse, 'norm'))
+	}
+	return blocks
+}
+
+export function repeat(
+	action: string,
+	args: DFArgumentValue[],
+	body: CodeBlock[],
+	options: DFBlockOptions = {}
+): CodeBlock[] {
+	return [block('repeat', action, args, options), ...bracketed(body, 'repeat')]
+}
+
+export function setVariable(
+	action: string,
+	args: DFArgumentValue[],
+	options: DFBlockOptions = {}
+): CodeBlock {
+	return block('set_var', action, args, options)
+}
+
+export function debugMessage(message: string, style: 'Error' | 'Warning'): CodeBlock {
+	return block('control', 'PrintDebug', [styledText(message)], {
+		tags: {
+			Permission: 'Developer',
+			'Text Value Merging': 'Add Spaces',
+			Highlighting: 'None',
+			Sound: 'Default',
+			'Message Style': style,
+		},
+	})
+}
+
+export function returnFromFunction(): CodeBlock {
+	return block('control', 'Return')
+}
+
+export function skipIteration(): CodeBlock {
+	return block('control', 'Skip')
+}
+
+/**
+ * Defines a base template written with the constructors in this file.
+ */
+export function defineSourceTemplate(options: DFSourceTemplateOptions): DFHelperTemplateDefinition {
+	return {
+		templateName: options.templateName,
+		displayName: options.displayName,
+		functionName: options.functionName,
+		category: options.category,
+		description: options.description,
+		hidden: options.hidden,
+		functionItems: slotted([
+			functionIcon(options.displayName, options.description, options.usage, options.glint),
+			...options.parameters,
+		]),
+		extraBlocks: options.blocks,
+	}
+}
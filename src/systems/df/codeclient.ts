@@ -1,13 +1,14 @@
+import { CODECLIENT_SESSION, CodeClientError } from './codeclientSession'
 import type { CodeClientTemplateItem } from './types'
 
-// https://github.com/DFOnline/CodeClient/wiki/API
+export { CodeClientError }
 
-const CODECLIENT_API_URL = 'ws://localhost:31375'
-const DEFAULT_INTER_GIVE_COMMAND_DELAY_MS = 50
-
-function wait(ms: number) {
-	return new Promise(resolve => setTimeout(resolve, ms))
-}
+/**
+ * How templates are sent through the CodeClient API.
+ * - `give`: Given to the player as template items
+ * - `place`: Placed into the code space of the plot, replacing functions with the same name
+ */
+export type CodeClientDelivery = 'give' | 'place'
 
 function escapeSnbtString(value: string) {
 	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
@@ -46,7 +47,8 @@ function parseAndNormalizeCodeTemplateData(value: string) {
 		parsed = JSON.parse(normalized)
 	} catch {
 		throw new CodeClientError(
-			'Invalid codetemplateData. Expected JSON object like {"author":"...","name":"...","version":1,"code":"..."}'
+			'Invalid codetemplateData. Expected JSON object like {"author":"...","name":"...","version":1,"code":"..."}',
+			'invalid_template'
 		)
 	}
 
@@ -55,254 +57,53 @@ function parseAndNormalizeCodeTemplateData(value: string) {
 			parsed = JSON.parse(parsed)
 		} catch {
 			throw new CodeClientError(
-				'Invalid codetemplateData JSON string. Expected nested JSON object payload.'
+				'Invalid codetemplateData JSON string. Expected nested JSON object payload.',
+				'invalid_template'
 			)
 		}
 	}
 
 	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
 		throw new CodeClientError(
-			'Invalid codetemplateData. Expected a JSON object with author/name/version/code.'
+			'Invalid codetemplateData. Expected a JSON object with author/name/version/code.',
+			'invalid_template'
 		)
 	}
 
 	return JSON.stringify(parsed)
 }
 
-export class CodeClientError extends Error {
-	constructor(
-		message: string,
-		public cause?: unknown
-	) {
-		super(message)
-		this.name = 'CodeClientError'
-	}
-}
-
-interface CodeClientSocketOptions {
-	url?: string
-	postSendResponseWindowMs?: number
-	interGiveCommandDelayMs?: number
-}
-
-export class CodeClientSocket {
-	private socket: WebSocket | undefined
-	private connecting: Promise<WebSocket> | undefined
-	private sendQueue: Promise<void> = Promise.resolve()
-	private readonly url: string
-	private readonly postSendResponseWindowMs: number
-	private readonly interGiveCommandDelayMs: number
-
-	constructor(options: CodeClientSocketOptions = {}) {
-		this.url = options.url ?? CODECLIENT_API_URL
-		this.postSendResponseWindowMs = options.postSendResponseWindowMs ?? 1500
-		this.interGiveCommandDelayMs =
-			options.interGiveCommandDelayMs ?? DEFAULT_INTER_GIVE_COMMAND_DELAY_MS
-	}
-
-	async sendGiveCommand(giveCommand: string): Promise<void> {
-		await this.sendGiveCommands([giveCommand])
-	}
-
-	async sendGiveCommands(giveCommands: string[]): Promise<void> {
-		const queuedSend = this.sendQueue
-			.catch(() => undefined)
-			.then(() => this.sendGiveCommandsImmediately(giveCommands))
-		this.sendQueue = queuedSend.catch(() => undefined)
-		return queuedSend
-	}
-
-	private async sendGiveCommandsImmediately(giveCommands: string[]): Promise<void> {
-		if (giveCommands.length === 0) return
-
-		const socket = await this.getSocket()
-		const errors: string[] = []
-		const parseTasks: Array<Promise<void>> = []
-		const onMessage = (event: MessageEvent) => {
-			parseTasks.push(
-				this.extractMessageTexts(event.data).then(messages => {
-					for (const message of messages) {
-						const normalized = message.trim().toLowerCase()
-
-						if (
-							normalized.includes('not creative mode') ||
-							(normalized.includes('creative mode') &&
-								(normalized.includes('not ') || normalized.includes('must be')))
-						) {
-							errors.push(
-								'CodeClient rejected the `give` command because you are not in creative mode.'
-							)
-							continue
-						}
-
-						if (normalized.includes('unauthed')) {
-							errors.push(
-								'CodeClient rejected the `give` command due to insufficient API scopes (received `unauthed`).'
-							)
-							continue
-						}
-
-						if (normalized.includes('invalid nbt')) {
-							errors.push(
-								'CodeClient rejected the `give` command due to invalid NBT data.'
-							)
-						}
-					}
-				})
-			)
-		}
-
-		socket.addEventListener('message', onMessage)
-		for (let i = 0; i < giveCommands.length; i++) {
-			const command = giveCommands[i]
-			try {
-				socket.send(command)
-			} catch (error) {
-				socket.removeEventListener('message', onMessage)
-				throw new CodeClientError(
-					'Failed to send command to CodeClient API. Ensure the CodeClient API connection is open.',
-					error
-				)
-			}
-			if (i < giveCommands.length - 1 && this.interGiveCommandDelayMs > 0) {
-				await wait(this.interGiveCommandDelayMs)
-			}
-		}
-
-		await new Promise(resolve => setTimeout(resolve, this.postSendResponseWindowMs))
-		socket.removeEventListener('message', onMessage)
-		await Promise.allSettled(parseTasks)
-
-		if (errors.length > 0) {
-			throw new CodeClientError(errors[0])
-		}
-	}
-
-	close() {
-		if (!this.socket) return
-		try {
-			this.socket.close()
-		} catch {
-			// no-op
-		}
-		this.socket = undefined
-		this.connecting = undefined
-	}
-
-	private async getSocket(): Promise<WebSocket> {
-		if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-			return this.socket
-		}
-
-		if (this.connecting) {
-			return this.connecting
-		}
-
-		this.connecting = new Promise<WebSocket>((resolve, reject) => {
-			const socket = new WebSocket(this.url)
-
-			const onOpen = () => {
-				cleanup()
-				this.socket = socket
-				socket.addEventListener('close', () => {
-					if (this.socket === socket) {
-						this.socket = undefined
-					}
-				})
-				resolve(socket)
-			}
-
-			const onError = (error: Event) => {
-				cleanup()
-				try {
-					socket.close()
-				} catch {
-					// no-op
-				}
-				reject(
-					new CodeClientError(
-						'Failed to connect to CodeClient API. Enable the API in CodeClient settings and make sure CodeClient is running.',
-						error
-					)
-				)
-			}
-
-			const onClose = () => {
-				cleanup()
-				reject(
-					new CodeClientError(
-						'CodeClient API connection closed before it could be established.'
-					)
-				)
-			}
-
-			const cleanup = () => {
-				socket.removeEventListener('open', onOpen)
-				socket.removeEventListener('error', onError)
-				socket.removeEventListener('close', onClose)
-			}
-
-			socket.addEventListener('open', onOpen)
-			socket.addEventListener('error', onError)
-			socket.addEventListener('close', onClose)
-		}).finally(() => {
-			this.connecting = undefined
-		})
-
-		return this.connecting
-	}
-
-	private async extractMessageTexts(data: unknown): Promise<string[]> {
-		let rawText: string | undefined
-		if (typeof data === 'string') {
-			rawText = data
-		} else if (data instanceof Blob) {
-			rawText = await data.text()
-		} else if (data instanceof ArrayBuffer) {
-			rawText = new TextDecoder().decode(data)
-		} else if (ArrayBuffer.isView(data)) {
-			rawText = new TextDecoder().decode(data)
-		}
-
-		if (!rawText) return []
-		return this.expandPotentialJsonMessages(rawText)
+/**
+ * Builds the `hypercube:codetemplatedata` payload of a template item, a JSON object with the
+ * gzipped and base64 encoded template as `code`.
+ */
+export async function buildCodeTemplatePayload(
+	item: CodeClientTemplateItem,
+	toBase64GZip: (input: string) => Promise<string>
+) {
+	if (item.codetemplateData) {
+		return parseAndNormalizeCodeTemplateData(item.codetemplateData)
 	}
 
-	private expandPotentialJsonMessages(rawText: string): string[] {
-		const messages = [rawText]
-		try {
-			const parsed: unknown = JSON.parse(rawText)
-			const extracted: string[] = []
-			this.collectNestedStrings(parsed, extracted)
-			for (const text of extracted) {
-				messages.push(text)
-			}
-		} catch {
-			// no-op, payload was plain text
-		}
-		return messages
+	if (!item.template) {
+		throw new CodeClientError(
+			'Template item requires either `template` or `codetemplateData`.',
+			'invalid_template'
+		)
 	}
 
-	private collectNestedStrings(value: unknown, output: string[]) {
-		if (typeof value === 'string') {
-			output.push(value)
-			return
-		}
-		if (!value || typeof value !== 'object') return
-		if (Array.isArray(value)) {
-			for (const item of value) {
-				this.collectNestedStrings(item, output)
-			}
-			return
-		}
-		for (const child of Object.values(value)) {
-			this.collectNestedStrings(child, output)
-		}
-	}
+	const zippedTemplate = await toBase64GZip(JSON.stringify(item.template))
+	const author = item.author ?? 'Animated Java'
+	const version = item.version ?? 1
+	return JSON.stringify({
+		author,
+		name: item.templateName,
+		...(item.description ? { description: item.description } : {}),
+		version,
+		code: zippedTemplate,
+	})
 }
 
-const DEFAULT_CODECLIENT_SOCKET = new CodeClientSocket()
-
 export async function buildCodeClientGiveCommand(
 	item: CodeClientTemplateItem,
 	toBase64GZip: (input: string) => Promise<string>
@@ -311,29 +112,7 @@ export async function buildCodeClientGiveCommand(
 	const displayName = escapeSnbtString(item.displayName ?? templateName)
 	const itemId = item.itemId ?? 'minecraft:ender_chest'
 
-	let templatePayload: string
-	if (item.codetemplateData) {
-		const normalizedPayload = parseAndNormalizeCodeTemplateData(item.codetemplateData)
-		templatePayload = normalizedPayload
-	} else {
-		if (!item.template) {
-			throw new CodeClientError(
-				'Template item requires either `template` or `codetemplateData`.'
-			)
-		}
-
-		const zippedTemplate = await toBase64GZip(JSON.stringify(item.template))
-		const author = item.author ?? 'Animated Java'
-		const version = item.version ?? 1
-		const generatedPayload = JSON.stringify({
-			author,
-			name: templateName,
-			...(item.description ? { description: item.description } : {}),
-			version,
-			code: zippedTemplate,
-		})
-		templatePayload = generatedPayload
-	}
+	const templatePayload = await buildCodeTemplatePayload(item, toBase64GZip)
 
 	if (item.itemSnbt) {
 		const escapedTemplatePayload = escapeSnbtString(templatePayload)
@@ -360,13 +139,40 @@ export async function buildCodeClientGiveCommand(
 	)
 }
 
+/**
+ * Returns the gzipped and base64 encoded template that CodeClient's `place` command expects.
+ */
+export async function buildCodeClientPlaceData(
+	item: CodeClientTemplateItem,
+	toBase64GZip: (input: string) => Promise<string>
+) {
+	const payload = JSON.parse(await buildCodeTemplatePayload(item, toBase64GZip))
+	if (typeof payload.code !== 'string' || payload.code.length === 0) {
+		throw new CodeClientError(
+			`Template "${item.templateName}" has no code to place.`,
+			'invalid_template'
+		)
+	}
+	return payload.code as string
+}
+
 export async function sendTemplatesToCodeClient(
 	templates: CodeClientTemplateItem[],
-	toBase64GZip: (input: string) => Promise<string>
+	toBase64GZip: (input: string) => Promise<string>,
+	delivery: CodeClientDelivery = 'give'
 ) {
+	if (delivery === 'place') {
+		const templateCodes: string[] = []
+		for (const item of templates) {
+			templateCodes.push(await buildCodeClientPlaceData(item, toBase64GZip))
+		}
+		await CODECLIENT_SESSION.placeTemplates(templateCodes)
+		return
+	}
+
 	const commands: string[] = []
 	for (const item of templates) {
 		commands.push(await buildCodeClientGiveCommand(item, toBase64GZip))
 	}
-	await DEFAULT_CODECLIENT_SOCKET.sendGiveCommands(commands)
+	await CODECLIENT_SESSION.sendGiveCommands(commands)
 }
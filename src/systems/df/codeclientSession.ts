@@ -0,0 +1,591 @@
+// https://github.com/DFOnline/CodeClient/wiki/API
+
+export type CodeClientScope =
+	| 'default'
+	| 'inventory'
+	| 'movement'
+	| 'read_plot'
+	| 'write_code'
+	| 'clear_plot'
+
+export type CodeClientMode = 'spawn' | 'play' | 'build' | 'dev'
+
+export type CodeClientConnectionState = 'disconnected' | 'connecting' | 'connected'
+
+/**
+ * - `unauthed`: No scopes were granted on this connection
+ * - `pending`: Scopes were requested, waiting for the player to run `/auth`
+ * - `authed`: The requested scopes were granted
+ */
+export type CodeClientAuthState = 'unauthed' | 'pending' | 'authed'
+
+export type CodeClientErrorCode =
+	| 'connection_failed'
+	| 'connection_closed'
+	| 'auth_timeout'
+	| 'unauthed'
+	| 'wrong_mode'
+	| 'invalid_nbt'
+	| 'send_failed'
+	| 'place_timeout'
+	| 'scan_timeout'
+	| 'invalid_template'
+	| 'unknown'
+
+export class CodeClientError extends Error {
+	constructor(
+		message: string,
+		public code: CodeClientErrorCode = 'unknown',
+		public cause?: unknown
+	) {
+		super(message)
+		this.name = 'CodeClientError'
+	}
+}
+
+export interface CodeClientSessionStatus {
+	connection: CodeClientConnectionState
+	auth: CodeClientAuthState
+	scopes: CodeClientScope[]
+	/** The mode the player was in when it was last checked, if CodeClient reported it */
+	mode?: CodeClientMode
+	/** The last error of the session, cleared once a request succeeds */
+	error?: { code: CodeClientErrorCode; message: string }
+}
+
+export interface CodeClientSessionOptions {
+	url?: string
+	/** How long to listen for error replies after sending commands */
+	postSendResponseWindowMs?: number
+	interGiveCommandDelayMs?: number
+	/** How long the player has to run `/auth` after scopes were requested */
+	authTimeoutMs?: number
+	modeTimeoutMs?: number
+	/** How long CodeClient may take to place templates */
+	placeTimeoutMs?: number
+	/** How long CodeClient may take to send the templates of the plot */
+	scanTimeoutMs?: number
+}
+
+export const DEFAULT_CODECLIENT_SESSION_OPTIONS: Required<CodeClientSessionOptions> = {
+	url: 'ws://localhost:31375',
+	postSendResponseWindowMs: 1500,
+	interGiveCommandDelayMs: 50,
+	authTimeoutMs: 30_000,
+	modeTimeoutMs: 2000,
+	placeTimeoutMs: 60_000,
+	scanTimeoutMs: 30_000,
+}
+
+interface CodeClientRequirements {
+	scopes: CodeClientScope[]
+	/** The modes the player has to be in, any mode is accepted if omitted */
+	modes?: CodeClientMode[]
+}
+
+/** A command that ends a batch of commands, CodeClient replies to it once the batch is done */
+interface CodeClientCompletion {
+	command: string
+	reply: string
+	timeoutMs: number
+	timeoutError: CodeClientError
+}
+
+interface ReplyWaiter {
+	matches: (reply: string) => boolean
+	resolve: (reply: string | undefined) => void
+}
+
+// Replies CodeClient sends when it rejects a command, ordered by priority
+const CODECLIENT_ERROR_REPLIES: Array<{
+	reply: string
+	code: CodeClientErrorCode
+	message: string
+}> = [
+	{
+		reply: 'unauthed',
+		code: 'unauthed',
+		message:
+			'CodeClient rejected the command because Animated Java is missing API scopes. Run /auth in Minecraft when asked to.',
+	},
+	{
+		reply: 'not creative mode',
+		code: 'wrong_mode',
+		message: 'CodeClient rejected the command because you are not in creative mode.',
+	},
+	{
+		reply: 'invalid nbt',
+		code: 'invalid_nbt',
+		message: 'CodeClient rejected the command due to invalid NBT data.',
+	},
+]
+
+// CodeClient reports dev mode as `code`
+const CODECLIENT_MODE_REPLIES: Record<string, CodeClientMode> = {
+	spawn: 'spawn',
+	play: 'play',
+	build: 'build',
+	dev: 'dev',
+	code: 'dev',
+}
+
+// Giving items needs creative mode, which is only available while building or coding
+export const CODECLIENT_GIVE_REQUIREMENTS: CodeClientRequirements = {
+	scopes: ['default', 'inventory'],
+	modes: ['build', 'dev'],
+}
+
+// Placing templates needs the player to be in the code space of their plot
+export const CODECLIENT_PLACE_REQUIREMENTS: CodeClientRequirements = {
+	scopes: ['default', 'write_code'],
+	modes: ['dev'],
+}
+
+// Reading the templates of the plot also needs the player to be in the code space
+export const CODECLIENT_SCAN_REQUIREMENTS: CodeClientRequirements = {
+	scopes: ['default', 'read_plot'],
+	modes: ['dev'],
+}
+
+// Every template CodeClient scans is gzipped and base64 encoded, an empty plot has none
+function isScanReply(reply: string) {
+	const trimmed = reply.trim()
+	return trimmed === '' || trimmed.startsWith('H4sI')
+}
+
+function wait(ms: number) {
+	return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function normalizeReply(reply: string) {
+	return reply.trim().toLowerCase()
+}
+
+function classifyReply(reply: string) {
+	const normalized = normalizeReply(reply)
+	return CODECLIENT_ERROR_REPLIES.find(entry => normalized.startsWith(entry.reply))
+}
+
+async function decodeMessageData(data: unknown): Promise<string | undefined> {
+	if (typeof data === 'string') return data
+	if (data instanceof Blob) return data.text()
+	if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+		return new TextDecoder().decode(data)
+	}
+}
+
+/**
+ * Keeps a connection to the CodeClient API, requests the scopes commands need and tracks the
+ * connection, authorization and mode of the player. Listeners registered with
+ * {@link CodeClientSession.onStatusChange} are notified whenever any of it changes.
+ */
+export class CodeClientSession {
+	private socket: WebSocket | undefined
+	private connecting: Promise<WebSocket> | undefined
+	private requestQueue: Promise<void> = Promise.resolve()
+	private waiters: ReplyWaiter[] = []
+	private replyListeners = new Set<(reply: string) => void>()
+	private statusListeners = new Set<(status: CodeClientSessionStatus) => void>()
+	private currentStatus: CodeClientSessionStatus = {
+		connection: 'disconnected',
+		auth: 'unauthed',
+		scopes: [],
+	}
+	private options: Required<CodeClientSessionOptions>
+
+	constructor(options: CodeClientSessionOptions = {}) {
+		this.options = { ...DEFAULT_CODECLIENT_SESSION_OPTIONS, ...options }
+	}
+
+	/**
+	 * Changes the options of the session. Changing the URL closes the current connection, the next
+	 * request connects to the new URL.
+	 */
+	configure(options: CodeClientSessionOptions) {
+		const previousUrl = this.options.url
+		this.options = { ...this.options, ...options }
+		if (this.options.url !== previousUrl) this.close()
+	}
+
+	get status(): CodeClientSessionStatus {
+		return this.currentStatus
+	}
+
+	/**
+	 * Calls `listener` with the current status and every time it changes.
+	 * Returns a function that removes the listener.
+	 */
+	onStatusChange(listener: (status: CodeClientSessionStatus) => void): () => void {
+		this.statusListeners.add(listener)
+		listener(this.currentStatus)
+		return () => this.statusListeners.delete(listener)
+	}
+
+	/**
+	 * Connects if needed and checks which mode the player is in. Errors are only reported
+	 * through the status.
+	 */
+	async refresh(): Promise<CodeClientSessionStatus> {
+		await this.enqueue(async () => {
+			await this.getSocket()
+			await this.queryMode()
+		}).catch(() => undefined)
+		return this.currentStatus
+	}
+
+	/**
+	 * Connects if needed and checks which mode the player is in. Unlike {@link refresh}, errors
+	 * are thrown.
+	 */
+	async testConnection(): Promise<CodeClientSessionStatus> {
+		await this.enqueue(async () => {
+			await this.getSocket()
+			await this.queryMode()
+		})
+		return this.currentStatus
+	}
+
+	async sendGiveCommands(giveCommands: string[]): Promise<void> {
+		await this.enqueue(async () => {
+			if (giveCommands.length === 0) return
+			await this.ensureRequirements(CODECLIENT_GIVE_REQUIREMENTS)
+			await this.sendAndCollectErrors(giveCommands, this.options.interGiveCommandDelayMs)
+		})
+	}
+
+	/**
+	 * Places the templates into the code space of the plot. `templateCodes` are the gzipped and
+	 * base64 encoded templates. Functions and processes that already exist are replaced.
+	 */
+	async placeTemplates(templateCodes: string[]): Promise<void> {
+		await this.enqueue(async () => {
+			if (templateCodes.length === 0) return
+			await this.ensureRequirements(CODECLIENT_PLACE_REQUIREMENTS)
+			await this.sendAndCollectErrors(
+				['place swap', ...templateCodes.map(code => `place ${code}`)],
+				0,
+				{
+					command: 'place go',
+					reply: 'place done',
+					timeoutMs: this.options.placeTimeoutMs,
+					timeoutError: new CodeClientError(
+						'CodeClient did not finish placing the templates in time. Make sure there is enough room in the code space of your plot.',
+						'place_timeout'
+					),
+				}
+			)
+		})
+	}
+
+	/**
+	 * Returns the gzipped and base64 encoded templates of every code line on the plot.
+	 */
+	async scanPlot(): Promise<string[]> {
+		return this.enqueue(async () => {
+			await this.ensureRequirements(CODECLIENT_SCAN_REQUIREMENTS)
+			const reply = await this.request('scan', isScanReply, this.options.scanTimeoutMs)
+			if (reply === undefined) {
+				throw new CodeClientError(
+					'CodeClient did not send the templates of the plot in time.',
+					'scan_timeout'
+				)
+			}
+			return reply
+				.split(/\r?\n/)
+				.map(line => line.trim())
+				.filter(line => line.length > 0)
+		})
+	}
+
+	close() {
+		if (!this.socket) return
+		try {
+			this.socket.close()
+		} catch {
+			// no-op
+		}
+		this.onDisconnected()
+	}
+
+	/**
+	 * Runs requests one after another, so replies can't be mixed up between them.
+	 * Failed requests are recorded in the status.
+	 */
+	private enqueue<T>(request: () => Promise<T>): Promise<T> {
+		const queued = this.requestQueue
+			.catch(() => undefined)
+			.then(request)
+			.then(
+				result => {
+					this.updateStatus({ error: undefined })
+					return result
+				},
+				(error: unknown) => {
+					const codeClientError =
+						error instanceof CodeClientError
+							? error
+							: new CodeClientError(String(error), 'unknown', error)
+					this.updateStatus({
+						error: { code: codeClientError.code, message: codeClientError.message },
+					})
+					throw codeClientError
+				}
+			)
+		this.requestQueue = queued.then(
+			() => undefined,
+			() => undefined
+		)
+		return queued
+	}
+
+	private async ensureRequirements(requirements: CodeClientRequirements) {
+		await this.getSocket()
+
+		const missingScopes = requirements.scopes.filter(
+			scope => !this.currentStatus.scopes.includes(scope)
+		)
+		if (missingScopes.length > 0) {
+			await this.requestScopes([...this.currentStatus.scopes, ...missingScopes])
+		}
+
+		const mode = await this.queryMode()
+		if (mode && requirements.modes && !requirements.modes.includes(mode)) {
+			throw new CodeClientError(
+				`You are in ${mode} mode, but this requires ${requirements.modes.join(' or ')} mode.`,
+				'wrong_mode'
+			)
+		}
+	}
+
+	private async requestScopes(scopes: CodeClientScope[]) {
+		this.updateStatus({ auth: 'pending' })
+		const reply = await this.request(
+			`scopes ${scopes.join(' ')}`,
+			reply => normalizeReply(reply) === 'auth',
+			this.options.authTimeoutMs
+		)
+		if (reply === undefined) {
+			this.updateStatus({ auth: 'unauthed', scopes: [] })
+			throw new CodeClientError(
+				'CodeClient did not grant the requested API scopes in time. Run /auth in Minecraft to allow Animated Java to use the CodeClient API.',
+				'auth_timeout'
+			)
+		}
+		this.updateStatus({ auth: 'authed', scopes })
+	}
+
+	private async queryMode(): Promise<CodeClientMode | undefined> {
+		const reply = await this.request(
+			'mode',
+			reply => normalizeReply(reply) in CODECLIENT_MODE_REPLIES,
+			this.options.modeTimeoutMs
+		)
+		const mode =
+			reply === undefined ? undefined : CODECLIENT_MODE_REPLIES[normalizeReply(reply)]
+		this.updateStatus({ mode })
+		return mode
+	}
+
+	/**
+	 * Sends `command` and resolves with the first reply that `matches`, or `undefined` if there
+	 * was none within `timeoutMs`.
+	 */
+	private async request(
+		command: string,
+		matches: (reply: string) => boolean,
+		timeoutMs: number
+	): Promise<string | undefined> {
+		const socket = await this.getSocket()
+		return new Promise<string | undefined>((resolve, reject) => {
+			const removeWaiter = () => {
+				clearTimeout(timeout)
+				this.waiters = this.waiters.filter(other => other !== waiter)
+			}
+			const waiter: ReplyWaiter = {
+				matches,
+				resolve: reply => {
+					removeWaiter()
+					resolve(reply)
+				},
+			}
+			const timeout = setTimeout(() => waiter.resolve(undefined), timeoutMs)
+			this.waiters.push(waiter)
+
+			try {
+				socket.send(command)
+			} catch (error) {
+				removeWaiter()
+				reject(
+					new CodeClientError(
+						'Failed to send command to CodeClient API. Ensure the CodeClient API connection is open.',
+						'send_failed',
+						error
+					)
+				)
+			}
+		})
+	}
+
+	/**
+	 * Sends the commands and listens for rejections until `postSendResponseWindowMs` after
+	 * the last one, or until CodeClient replied to the `completion` command if there is one.
+	 * CodeClient doesn't reply to commands that succeed.
+	 */
+	private async sendAndCollectErrors(
+		commands: string[],
+		interCommandDelayMs: number,
+		completion?: CodeClientCompletion
+	) {
+		const socket = await this.getSocket()
+		const rejections = new Set<(typeof CODECLIENT_ERROR_REPLIES)[number]>()
+		const onReply = (reply: string) => {
+			const rejection = classifyReply(reply)
+			if (rejection) rejections.add(rejection)
+		}
+
+		this.replyListeners.add(onReply)
+		try {
+			for (let i = 0; i < commands.length; i++) {
+				try {
+					socket.send(commands[i])
+				} catch (error) {
+					throw new CodeClientError(
+						'Failed to send command to CodeClient API. Ensure the CodeClient API connection is open.',
+						'send_failed',
+						error
+					)
+				}
+				if (i < commands.length - 1 && interCommandDelayMs > 0) {
+					await wait(interCommandDelayMs)
+				}
+			}
+			if (completion) {
+				const reply = await this.request(
+					completion.command,
+					reply => normalizeReply(reply) === completion.reply,
+					completion.timeoutMs
+				)
+				if (reply === undefined && rejections.size === 0) throw completion.timeoutError
+			} else {
+				await wait(this.options.postSendResponseWindowMs)
+			}
+		} finally {
+			this.replyListeners.delete(onReply)
+		}
+
+		const rejection = CODECLIENT_ERROR_REPLIES.find(entry => rejections.has(entry))
+		if (!rejection) return
+
+		if (rejection.code === 'unauthed') {
+			// The scopes were revoked, request them again next time
+			this.updateStatus({ auth: 'unauthed', scopes: [] })
+		}
+		throw new CodeClientError(rejection.message, rejection.code)
+	}
+
+	private handleReply(reply: string) {
+		const waiter = this.waiters.find(waiter => waiter.matches(reply))
+		if (waiter) {
+			waiter.resolve(reply)
+			return
+		}
+		for (const listener of this.replyListeners) {
+			listener(reply)
+		}
+	}
+
+	private onDisconnected() {
+		this.socket = undefined
+		this.connecting = undefined
+		for (const waiter of [...this.waiters]) {
+			waiter.resolve(undefined)
+		}
+		this.updateStatus({
+			connection: 'disconnected',
+			auth: 'unauthed',
+			scopes: [],
+			mode: undefined,
+		})
+	}
+
+	private updateStatus(changes: Partial<CodeClientSessionStatus>) {
+		this.currentStatus = { ...this.currentStatus, ...changes }
+		for (const listener of this.statusListeners) {
+			listener(this.currentStatus)
+		}
+	}
+
+	private async getSocket(): Promise<WebSocket> {
+		if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+			return this.socket
+		}
+
+		if (this.connecting) {
+			return this.connecting
+		}
+
+		this.updateStatus({ connection: 'connecting' })
+		this.connecting = new Promise<WebSocket>((resolve, reject) => {
+			const socket = new WebSocket(this.options.url)
+
+			const onOpen = () => {
+				cleanup()
+				this.socket = socket
+				socket.addEventListener('message', event => {
+					void decodeMessageData(event.data).then(reply => {
+						if (reply !== undefined) this.handleReply(reply)
+					})
+				})
+				socket.addEventListener('close', () => {
+					if (this.socket === socket) this.onDisconnected()
+				})
+				this.updateStatus({ connection: 'connected' })
+				resolve(socket)
+			}
+
+			const onError = (error: Event) => {
+				cleanup()
+				try {
+					socket.close()
+				} catch {
+					// no-op
+				}
+				this.updateStatus({ connection: 'disconnected' })
+				reject(
+					new CodeClientError(
+						`Failed to connect to CodeClient API at ${this.options.url}. Enable the API in CodeClient settings and make sure CodeClient is running.`,
+						'connection_failed',
+						error
+					)
+				)
+			}
+
+			const onClose = () => {
+				cleanup()
+				this.updateStatus({ connection: 'disconnected' })
+				reject(
+					new CodeClientError(
+						'CodeClient API connection closed before it could be established.',
+						'connection_closed'
+					)
+				)
+			}
+
+			const cleanup = () => {
+				socket.removeEventListener('open', onOpen)
+				socket.removeEventListener('error', onError)
+				socket.removeEventListener('close', onClose)
+			}
+
+			socket.addEventListener('open', onOpen)
+			socket.addEventListener('error', onError)
+			socket.addEventListener('close', onClose)
+		}).finally(() => {
+			this.connecting = undefined
+		})
+
+		return this.connecting
+	}
+}
+
+export const CODECLIENT_SESSION = new CodeClientSession()
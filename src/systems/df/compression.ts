@@ -1,3 +1,5 @@
+import { gunzipSync, gzipSync, strFromU8, strToU8 } from 'fflate/browser'
+
 export class DFCompressionError extends Error {
 	constructor(message: string, public cause?: unknown) {
 		super(message)
@@ -5,44 +7,24 @@ export class DFCompressionError extends Error {
 	}
 }
 
-interface PakoApi {
-	gzip: (input: unknown, options?: unknown) => Uint8Array | string
-}
-
-async function loadPako() {
-	return new Promise((resolve, reject) => {
-		const script = document.createElement('script')
-		script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pako/2.0.3/pako.min.js'
-		script.onload = resolve
-		script.onerror = reject
-		document.head.appendChild(script)
-	})
-}
-
-async function getPakoApi(): Promise<PakoApi> {
-	const globalObj = globalThis as unknown as {
-		pako?: PakoApi
-		PAKO?: PakoApi
+export function textToGZip(input: string): Promise<string> {
+	try {
+		return Promise.resolve(Buffer.from(gzipSync(strToU8(input))).toString('base64'))
+	} catch (error) {
+		return Promise.reject(
+			new DFCompressionError('Failed to compress DF export payload.', error)
+		)
 	}
-
-	if (globalObj.pako?.gzip) return globalObj.pako
-	if (globalObj.PAKO?.gzip) return globalObj.PAKO
-
-	await loadPako()
-
-	if (globalObj.pako?.gzip) return globalObj.pako
-	if (globalObj.PAKO?.gzip) return globalObj.PAKO
-
-	throw new Error('Failed to load pako gzip API')
 }
 
-export async function textToGZip(input: string): Promise<string> {
+/**
+ * Reverses {@link textToGZip}, decoding a base64 encoded gzip payload like the `code` of a
+ * template.
+ */
+export function gZipToText(input: string): Promise<string> {
 	try {
-		const pako = await getPakoApi()
-		const uint8array = pako.gzip(input, { to: 'string' })
-		return Buffer.from(uint8array).toString('base64')
+		return Promise.resolve(strFromU8(gunzipSync(new Uint8Array(Buffer.from(input, 'base64')))))
 	} catch (error) {
-		throw new DFCompressionError('Failed to compress DF export payload.', error)
+		return Promise.reject(new DFCompressionError('Failed to decompress DF payload.', error))
 	}
 }
-
@@ -1,3 +1,5 @@
+import { DFExportError, DFTemplateDecodeError } from './errors'
+
 // Rotate from column-major to row-major order
 export function rotateMatrix(matrix: number[]): number[] {
     return [
@@ -8,45 +10,367 @@ export function rotateMatrix(matrix: number[]): number[] {
     ]
 }
 
-function compressNumberList(values: number[]): string {
-	const compressed = []
-	for (const element of values) {
-		const v = Math.round(element * 1000)
+// Base templates are written with the default namespace and renamed when they are built
+export const DF_DEFAULT_FUNCTION_NAMESPACE = 'rig'
+
+const DF_DEFAULT_NAMESPACE_PATTERN = /(^|\()rig\./g
+
+/**
+ * Moves a function or variable name, or a name used inside a `%var(...)`-like code, from the
+ * default `rig.` namespace to another one.
+ */
+export function applyDFFunctionNamespace(value: string, namespace: string): string {
+	if (namespace === DF_DEFAULT_FUNCTION_NAMESPACE) return value
+	return value.replace(DF_DEFAULT_NAMESPACE_PATTERN, (_, start: string) => `${start}${namespace}.`)
+}
+
+export function getDFInitFunctionPrefix(namespace = DF_DEFAULT_FUNCTION_NAMESPACE) {
+	return `${namespace}.init.`
+}
+
+const DF_ANIMATION_NAME_PREFIX = 'animation.model.'
+
+export function toDFAnimationName(animationName: string): string {
+	const trimmed = animationName.trim()
+	const withoutPrefix = trimmed.startsWith(DF_ANIMATION_NAME_PREFIX)
+		? trimmed.slice(DF_ANIMATION_NAME_PREFIX.length)
+		: trimmed
+
+	return withoutPrefix || trimmed || 'animation'
+}
+
+// `<namespace>.init.rig` calls `<namespace>.init.<model>` with these, animation init functions only
+// fill `animations`. Animations and variants are built in line variables named after them, next
+// to these.
+export const DF_INIT_PARAMETERS = ['nodes', 'animations', 'variants'] as const
+export const DF_ANIMATION_INIT_PARAMETERS = ['animations'] as const
+
+export const DF_ROOT_EVENT_SOURCE = 'root'
+
+// `rig.setVariant` resets the rig to its default models when given this name
+export const DF_DEFAULT_VARIANT_NAME = 'default'
+
+// Animation properties and keyframe channels share the animation list with node data, so they
+// use a prefix that can't collide with node names.
+export const DF_ANIMATION_PROPERTY_PREFIX = '@'
+
+// Separates the node names of the `modified_nodes` animation property
+export const DF_NODE_NAME_SEPARATOR = '|'
+
+/**
+ * Marks gzipped animation data that starts with a header, see {@link encodeAnimationFrames}.
+ * Base64 never contains this character, so older data without a header can still be told apart.
+ */
+export const ANIMATION_DATA_PREFIX = '~'
+
+/** Checked by the decoder base templates, bump it whenever the layout of the data changes */
+export const ANIMATION_DATA_VERSION = 2
+
+export const DEFAULT_CHANNEL_PRECISION = 3
+export const MAX_CHANNEL_PRECISION = 6
+export const MAX_CHANNEL_WIDTH = 4
+
+// Run lengths always take up three characters
+const RUN_LENGTH_WIDTH = 3
+
+export interface ChannelEncoding {
+	/** Amount of decimal places that are kept */
+	precision: number
+	/** Amount of characters per value */
+	width: number
+}
+
+export interface AnimationFrameEncodingOptions {
+	/** Describes the encoded data in error messages */
+	label: string
+	/** The precision of every channel, or one precision per channel */
+	precision?: number | number[]
+}
+
+/**
+ * Returns the range of integers that can be stored in `width` characters. Every character holds
+ * a digit between -64 and 63, offset by 64 to stay in the 7-bit range.
+ */
+export function getChannelRange(width: number): { min: number; max: number } {
+	let min = 0
+	let max = 0
+	for (let i = 0; i < width; i++) {
+		min = min * 128 - 64
+		max = max * 128 + 63
+	}
+	return { min, max }
+}
+
+function symmetricModulo(n: number, m: number) {
+	let remainder = n % m
+	if (remainder >= m / 2) {
+		remainder -= m
+	} else if (remainder < -m / 2) {
+		remainder += m
+	}
+	return remainder
+}
+
+// Expects a value within `getChannelRange(width)`
+function encodeInteger(value: number, width: number): string {
+	const chars: number[] = []
+	let remaining = value
+	for (let i = 0; i < width - 1; i++) {
+		const digit = symmetricModulo(remaining, 128)
+		chars.push(digit + 64)
+		remaining = (remaining - digit) / 128
+	}
+	chars.push(remaining + 64)
+	return String.fromCharCode(...chars)
+}
+
+function quantize(value: number, precision: number): number {
+	// Avoids writing negative zero, which would still decode to zero
+	return Math.round(value * 10 ** precision) || 0
+}
+
+function getChannelPrecisions(options: AnimationFrameEncodingOptions, channelCount: number) {
+	const precisions = Array.isArray(options.precision)
+		? options.precision
+		: new Array<number>(channelCount).fill(options.precision ?? DEFAULT_CHANNEL_PRECISION)
+
+	if (precisions.length !== channelCount) {
+		throw new DFExportError(
+			`${options.label} has ${channelCount} channels, but ${precisions.length} precisions were given.`
+		)
+	}
+	for (const precision of precisions) {
+		if (!Number.isInteger(precision) || precision < 0 || precision > MAX_CHANNEL_PRECISION) {
+			throw new DFExportError(
+				`Invalid precision ${precision} for ${options.label}, expected a whole number between 0 and ${MAX_CHANNEL_PRECISION}.`
+			)
+		}
+	}
+	return precisions
+}
+
+/**
+ * Picks the smallest width for every channel that fits all of its values.
+ * Throws a {@link DFExportError} if a value doesn't fit in {@link MAX_CHANNEL_WIDTH} characters.
+ */
+export function fitChannelEncodings(
+	frames: number[][],
+	options: AnimationFrameEncodingOptions
+): ChannelEncoding[] {
+	const channelCount = frames[0]?.length ?? 0
+	const precisions = getChannelPrecisions(options, channelCount)
+
+	return precisions.map((precision, channel) => {
+		let width = 1
+		for (const frame of frames) {
+			const value = frame[channel]
+			if (!Number.isFinite(value)) {
+				throw new DFExportError(
+					`${options.label} contains an invalid value (${value}) in channel ${channel + 1}.`
+				)
+			}
 
-		const symmetricModulo = (n: number, m: number) => {
-			let remainder = n % m
-			if (remainder >= m / 2) {
-				remainder -= m
-			} else if (remainder < -m / 2) {
-				remainder += m
+			const quantized = quantize(value, precision)
+			while (width <= MAX_CHANNEL_WIDTH) {
+				const range = getChannelRange(width)
+				if (quantized >= range.min && quantized <= range.max) break
+				width++
+			}
+			if (width > MAX_CHANNEL_WIDTH) {
+				const range = getChannelRange(MAX_CHANNEL_WIDTH)
+				throw new DFExportError(
+					`${options.label} contains a value (${value}) in channel ${channel + 1} that is out of range. ` +
+						`With a precision of ${precision} decimal places, values must be between ` +
+						`${range.min / 10 ** precision} and ${range.max / 10 ** precision}.`
+				)
 			}
-			return remainder
 		}
+		return { precision, width }
+	})
+}
 
-		const x0 = symmetricModulo(v, 128)
+/**
+ * Encodes compressed frames as `run length, frame` records, so frames that repeat the previous
+ * one only take up space once.
+ */
+export function encodeSparseFrames(frames: string[]): string {
+	const maxRunLength = getChannelRange(RUN_LENGTH_WIDTH).max
+	const records: string[] = []
+	let runFrame: string | undefined
+	let runLength = 0
 
-		let remainingV = (v - x0) / 128
-		const x1 = symmetricModulo(remainingV, 128)
+	const pushRun = () => {
+		if (runFrame === undefined) return
+		records.push(encodeInteger(runLength, RUN_LENGTH_WIDTH) + runFrame)
+	}
 
-		remainingV = (remainingV - x1) / 128
-		const x2 = remainingV
+	for (const frame of frames) {
+		if (frame === runFrame && runLength < maxRunLength) {
+			runLength++
+			continue
+		}
+		pushRun()
+		runFrame = frame
+		runLength = 1
+	}
+	pushRun()
+
+	return records.join('')
+}
 
-		const b0 = x0 + 64
-		const b1 = x1 + 64
-		const b2 = x2 + 64
+/**
+ * Encodes the frames of a node as a header followed by sparse frame records. The header holds
+ * the {@link ANIMATION_DATA_VERSION}, the amount of channels and the precision and width of
+ * every channel, one character each. Decoded by the `rig.decodeMatrices` and
+ * `rig.decodeLocatorTransforms` base templates.
+ */
+export function encodeAnimationFrames(
+	frames: number[][],
+	options: AnimationFrameEncodingOptions
+): string {
+	const encodings = fitChannelEncodings(frames, options)
+	const header = [
+		encodeInteger(ANIMATION_DATA_VERSION, 1),
+		encodeInteger(encodings.length, 1),
+		...encodings.map(
+			encoding => encodeInteger(encoding.precision, 1) + encodeInteger(encoding.width, 1)
+		),
+	].join('')
 
-		const str = String.fromCharCode(b0, b1, b2)
-		compressed.push(str)
+	const encodedFrames = frames.map(frame =>
+		frame
+			.map((value, channel) => {
+				const { precision, width } = encodings[channel]
+				return encodeInteger(quantize(value, precision), width)
+			})
+			.join('')
+	)
+
+	return header + encodeSparseFrames(encodedFrames)
+}
+
+// Legacy animation data stores every value as three characters with three decimal places
+const LEGACY_VALUE_WIDTH = 3
+const LEGACY_VALUE_PRECISION = 3
+
+function readInteger(data: string, position: number, width: number): number {
+	if (position + width > data.length) {
+		throw new DFTemplateDecodeError('Animation data ends in the middle of a value.')
 	}
+	let value = 0
+	let place = 1
+	for (let i = 0; i < width; i++) {
+		value += (data.charCodeAt(position + i) - 64) * place
+		place *= 128
+	}
+	return value
+}
 
-	return compressed.join('')
+/**
+ * Reverses {@link encodeAnimationFrames}, returning one list of channel values per frame.
+ */
+export function decodeAnimationFrames(data: string): number[][] {
+	let position = 0
+	const read = (width: number) => {
+		const value = readInteger(data, position, width)
+		position += width
+		return value
+	}
+
+	const version = read(1)
+	if (version !== ANIMATION_DATA_VERSION) {
+		throw new DFTemplateDecodeError(
+			`Animation data version ${version} is not supported, expected version ${ANIMATION_DATA_VERSION}.`
+		)
+	}
+	const encodings: ChannelEncoding[] = Array.from({ length: read(1) }, () => ({
+		precision: read(1),
+		width: read(1),
+	}))
+
+	const frames: number[][] = []
+	while (position < data.length) {
+		const runLength = read(RUN_LENGTH_WIDTH)
+		const frame = encodings.map(({ precision, width }) => read(width) / 10 ** precision)
+		for (let i = 0; i < runLength; i++) frames.push([...frame])
+	}
+	return frames
+}
+
+/**
+ * Decodes animation data exported before the data header was added, which stores `valueCount`
+ * values for every frame.
+ */
+export function decodeLegacyAnimationFrames(data: string, valueCount: number): number[][] {
+	const frameSize = valueCount * LEGACY_VALUE_WIDTH
+	if (data.length % frameSize !== 0) {
+		throw new DFTemplateDecodeError(
+			`Legacy animation data has ${data.length} characters, which is not a multiple of the frame size ${frameSize}.`
+		)
+	}
+
+	const frames: number[][] = []
+	for (let position = 0; position < data.length; position += frameSize) {
+		frames.push(
+			Array.from(
+				{ length: valueCount },
+				(_, index) =>
+					readInteger(data, position + index * LEGACY_VALUE_WIDTH, LEGACY_VALUE_WIDTH) /
+					10 ** LEGACY_VALUE_PRECISION
+			)
+		)
+	}
+	return frames
 }
 
-export function compressMatrix(matrix: number[]): string {
-	return compressNumberList(matrix)
+// Every line of a function keyframe is the name of a DF function to call.
+export function getEventFunctionNames(functionText?: string): string[] {
+	if (!functionText) return []
+	return functionText
+		.split(/\r?\n/)
+		.map(line => line.trim())
+		.filter(line => line.length > 0 && !line.startsWith('#'))
 }
 
-export function compressLocatorTransform(transform: number[]): string {
-	return compressNumberList(transform)
+export interface KeyframeRecord {
+	/** 1-based frame index, matching the frame lookup of `rig.animate` */
+	frame: number
+	fields: string[]
 }
 
+const KEYFRAME_RECORD_SEPARATOR = ';'
+const KEYFRAME_FIELD_SEPARATOR = '|'
+
+/** Matches the characters keyframe fields can't contain, as they separate records and fields */
+export const KEYFRAME_SEPARATOR_PATTERN = /[;|\r\n]/
+
+function checkKeyframeField(value: string): string {
+	if (KEYFRAME_SEPARATOR_PATTERN.test(value)) {
+		throw new DFExportError(
+			`The keyframe text "${value}" contains ";", "|" or a line break, which separate keyframes in the exported data.`
+		)
+	}
+	return value.trim()
+}
+
+// Encodes keyframe records as `frame|field|...;frame|field|...`, which is split back into
+// a frame -> records dictionary by the `rig.decodeKeyframes` base template. Throws a
+// `DFExportError` if a field contains one of the separators.
+export function encodeKeyframeRecords(records: KeyframeRecord[]): string {
+	return records
+		.map(record => {
+			const fields = record.fields.map(checkKeyframeField)
+			while (fields.length > 0 && fields[fields.length - 1] === '') fields.pop()
+			return [String(record.frame), ...fields].join(KEYFRAME_FIELD_SEPARATOR)
+		})
+		.join(KEYFRAME_RECORD_SEPARATOR)
+}
+
+// Reverses `encodeKeyframeRecords`
+export function decodeKeyframeRecords(data: string): KeyframeRecord[] {
+	if (data.length === 0) return []
+	return data.split(KEYFRAME_RECORD_SEPARATOR).map(record => {
+		const [frame, ...fields] = record.split(KEYFRAME_FIELD_SEPARATOR)
+		return { frame: Number(frame), fields }
+	})
+}
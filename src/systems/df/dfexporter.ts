@@ -1,21 +1,56 @@
-import type { IBlueprintDisplayEntityConfigJSON } from '../../formats/blueprint'
-import { DisplayEntityConfig } from '../../nodeConfigs'
-import type { INodeTransform, IRenderedAnimation } from '../animationRenderer'
-import type { AnyRenderedNode, IRenderedRig, IRenderedVariantModel } from '../rigRenderer'
+import * as crypto from 'node:crypto'
+import type {
+	IBlueprintDFTemplateHashesJSON,
+	IBlueprintDisplayEntityConfigJSON,
+} from '../../formats/blueprint'
+import type { DFTransformEncoding } from '../../formats/blueprint/settings'
+import { DisplayEntityConfig, InteractionConfig } from '../../nodeConfigs'
+import { hashAnimations, type INodeTransform, type IRenderedAnimation } from '../animationRenderer'
+import type {
+	AnyRenderedNode,
+	IRenderedRig,
+	IRenderedVariant,
+	IRenderedVariantModel,
+} from '../rigRenderer'
+import {
+	DF_RIG_FORMAT_VERSION,
+	DF_TEMPLATE_MARKER_KEYS,
+	markTemplateIcon,
+} from './baseTemplateVersions'
+import { buildDFBaseTemplateItems } from './baseTemplates'
 import { CodeClientError, sendTemplatesToCodeClient } from './codeclient'
 import { textToGZip } from './compression'
-import { compressLocatorTransform, compressMatrix, rotateMatrix } from './dfdata'
-import type { CodeBlock, CodeTemplate } from './types'
-
-export class DFExportError extends Error {
-	constructor(
-		message: string,
-		public cause?: unknown
-	) {
-		super(message)
-		this.name = 'DFExportError'
-	}
-}
+import {
+	ANIMATION_DATA_PREFIX,
+	DF_ANIMATION_INIT_PARAMETERS,
+	DF_ANIMATION_PROPERTY_PREFIX,
+	DF_DEFAULT_VARIANT_NAME,
+	DF_INIT_PARAMETERS,
+	DF_NODE_NAME_SEPARATOR,
+	DF_ROOT_EVENT_SOURCE,
+	getDFInitFunctionPrefix,
+	getEventFunctionNames,
+	encodeAnimationFrames,
+	encodeKeyframeRecords,
+	type KeyframeRecord,
+	rotateMatrix,
+	toDFAnimationName,
+} from './dfdata'
+import { DFExportError } from './errors'
+import { jsonTextToMiniMessage } from './miniMessage'
+import { buildDFTemplateFile, saveDFTemplateFile } from './templateFile'
+import { type DFTemplateUnit, splitTemplateUnits } from './templateSplitter'
+import type { CodeBlock, CodeClientTemplateItem } from './types'
+
+export { DFExportError }
+
+/**
+ * Where the exported templates end up.
+ * - `codeclient`: Given to the player through the CodeClient API
+ * - `place`: Placed into the plot through the CodeClient API, replacing the previous templates
+ * - `file`: Saved to a JSON file, see {@link buildDFTemplateFile}
+ */
+export type DFTemplateOutput = 'codeclient' | 'place' | 'file'
 
 interface Node {
 	name: string
@@ -23,23 +58,37 @@ interface Node {
 	data?: Record<string, unknown>
 }
 
-interface DFTemplateData {
+export interface DFTemplateData {
 	model_name: string
 	item_material: string
 	nodes: Record<string, Node>
 }
 
-type RawAnimationData = Record<
+export type RawAnimationData = Record<
 	string,
 	{
 		length: number
+		loop_mode: IRenderedAnimation['loop_mode']
+		loop_delay: number
 		nodes: Record<string, string>
+		/** Names of the non-locator nodes the animation moves, which layered animations apply */
+		modified_nodes: string[]
+		/** Encoded keyframe records by channel, see {@link encodeKeyframeRecords} */
+		keyframes: Record<string, string>
 	}
 >
 
-type RawVariantData = Record<string, string[]>
+/** The bones every variant changes, with the `item_model` of the variant */
+export type RawVariantData = Record<string, Node[]>
 
-type SupportedDFNodeType = 'bone' | 'text_display' | 'item_display' | 'block_display' | 'locator'
+type SupportedDFNodeType =
+	| 'bone'
+	| 'text_display'
+	| 'item_display'
+	| 'block_display'
+	| 'locator'
+	| 'camera'
+	| 'interaction'
 
 const DF_EXPORTED_NODE_TYPES: ReadonlySet<SupportedDFNodeType> = new Set([
 	'bone',
@@ -47,6 +96,17 @@ const DF_EXPORTED_NODE_TYPES: ReadonlySet<SupportedDFNodeType> = new Set([
 	'item_display',
 	'block_display',
 	'locator',
+	'camera',
+	'interaction',
+])
+
+// Cameras and interactions are exported as locators, so they get the same transform stream and
+// `rig.<model>.<id>.locators.<name>.location` variable. Interactions also spawn an entity that
+// follows the locator.
+const DF_LOCATOR_NODE_TYPES: ReadonlySet<AnyRenderedNode['type']> = new Set([
+	'locator',
+	'camera',
+	'interaction',
 ])
 
 const DF_HYPERCUBE_TYPE_BY_NODE_TYPE: Record<SupportedDFNodeType, string> = {
@@ -55,6 +115,8 @@ const DF_HYPERCUBE_TYPE_BY_NODE_TYPE: Record<SupportedDFNodeType, string> = {
 	item_display: 'item',
 	block_display: 'block',
 	locator: 'locator',
+	camera: 'locator',
+	interaction: 'locator',
 }
 
 const DF_NODE_ITEM_DISPLAY_TYPE_BY_NODE_TYPE: Record<SupportedDFNodeType, string> = {
@@ -63,23 +125,26 @@ const DF_NODE_ITEM_DISPLAY_TYPE_BY_NODE_TYPE: Record<SupportedDFNodeType, string
 	item_display: 'Item Display',
 	block_display: 'Block Display',
 	locator: 'Locator',
+	camera: 'Camera',
+	interaction: 'Interaction',
 }
 
-const DF_ANIMATION_NAME_PREFIX = 'animation.model.'
-
 function ensureNamespacedId(id: string): string {
 	const trimmed = id.trim()
 	if (!trimmed) return 'minecraft:stone'
 	return trimmed.includes(':') ? trimmed : `minecraft:${trimmed}`
 }
 
-function toDFAnimationName(animationName: string): string {
-	const trimmed = animationName.trim()
-	const withoutPrefix = trimmed.startsWith(DF_ANIMATION_NAME_PREFIX)
-		? trimmed.slice(DF_ANIMATION_NAME_PREFIX.length)
-		: trimmed
+/** The model id of the exported rig, which falls back to the Blueprint name */
+export function getDFModelId(): string {
+	const { df_model_id } = Project!.animated_java
+	return df_model_id === '' ? Project!.name : df_model_id
+}
 
-	return withoutPrefix || trimmed || 'animation'
+/** The item of exported item display nodes, which falls back to the display item */
+function getDFItemMaterial(): string {
+	const { df_item_material, display_item } = Project!.animated_java
+	return ensureNamespacedId(df_item_material === '' ? display_item : df_item_material)
 }
 
 function makeUniqueName(baseName: string, usedNames: Set<string>): string {
@@ -97,6 +162,10 @@ function isSupportedDFNodeType(type: AnyRenderedNode['type']): type is Supported
 	return DF_EXPORTED_NODE_TYPES.has(type as SupportedDFNodeType)
 }
 
+function isLocatorNodeType(type: AnyRenderedNode['type']): boolean {
+	return DF_LOCATOR_NODE_TYPES.has(type)
+}
+
 function getLocatorTransformValues(
 	transform?: INodeTransform
 ): [number, number, number, number, number] {
@@ -109,6 +178,92 @@ function getLocatorTransformValues(
 	]
 }
 
+// Row-major matrix entries, or translation, left rotation quaternion (x, y, z, w) and scale
+function getTransformValues(
+	transform: INodeTransform,
+	transformEncoding: DFTransformEncoding
+): number[] {
+	if (transformEncoding === 'matrix') return rotateMatrix(transform.matrix.elements)
+
+	const { translation, left_rotation: rotation, scale } = transform.decomposed
+	return [
+		...translation.toArray(),
+		rotation.x,
+		rotation.y,
+		rotation.z,
+		rotation.w,
+		...scale.toArray(),
+	]
+}
+
+// Decimal places kept for every value of `getLocatorTransformValues` and `getTransformValues`.
+// Rotation and scale get more than translation, since their errors grow with the distance from
+// the origin of the node. The last row of a matrix is always 0, 0, 0, 1.
+const LOCATOR_CHANNEL_PRECISION = [3, 3, 3, 2, 2]
+const CHANNEL_PRECISION: Record<DFTransformEncoding, number[]> = {
+	matrix: [4, 4, 4, 3, 4, 4, 4, 3, 4, 4, 4, 3, 1, 1, 1, 1],
+	trs: [3, 3, 3, 5, 5, 5, 5, 4, 4, 4],
+}
+
+function collectAnimationEvents(
+	animation: IRenderedAnimation,
+	nodes: Record<string, Node>
+): KeyframeRecord[] {
+	const records: KeyframeRecord[] = []
+	const pushEvents = (
+		frame: number,
+		source: string,
+		functionText?: string,
+		condition?: string
+	) => {
+		for (const functionName of getEventFunctionNames(functionText)) {
+			records.push({ frame, fields: [source, functionName, condition ?? ''] })
+		}
+	}
+
+	for (const [index, frame] of animation.frames.entries()) {
+		pushEvents(
+			index + 1,
+			DF_ROOT_EVENT_SOURCE,
+			frame.function,
+			frame.function_execute_condition
+		)
+		for (const [nodeUuid, nodeTransform] of Object.entries(frame.node_transforms)) {
+			const node = nodes[nodeUuid] as Node | undefined
+			if (!node || !isLocatorNodeType(node.type)) continue
+			pushEvents(
+				index + 1,
+				node.name,
+				nodeTransform.function,
+				nodeTransform.function_execute_condition
+			)
+		}
+	}
+
+	return records
+}
+
+function collectAnimationVariantKeyframes(
+	animation: IRenderedAnimation,
+	rig: IRenderedRig
+): KeyframeRecord[] {
+	const records: KeyframeRecord[] = []
+	for (const [index, frame] of animation.frames.entries()) {
+		for (const variantUuid of frame.variants ?? []) {
+			const variant = rig.variants[variantUuid] as IRenderedVariant | undefined
+			if (!variant) continue
+			records.push({
+				frame: index + 1,
+				fields: [
+					variant.is_default ? DF_DEFAULT_VARIANT_NAME : variant.name,
+					frame.variants_execute_condition ?? '',
+				],
+			})
+		}
+	}
+	return records
+}
+
 function blockMaterialToItemId(blockMaterial: string): string {
 	return parseBlockMaterial(blockMaterial).itemId
 }
@@ -144,18 +299,6 @@ function escapeSnbtString(value: string): string {
 		.replace(/\t/g, '\\t')
 }
 
-function normalizeTextTagValue(rawText: string): string {
-	const trimmed = rawText.trim()
-	if (!trimmed) return ''
-	try {
-		const parsed = JSON.parse(trimmed)
-		if (typeof parsed === 'string') return parsed
-	} catch {
-		// keep raw text if it's not valid JSON
-	}
-	return rawText
-}
-
 function normalizeRgbHex(color: string): string {
 	const trimmed = color.trim()
 	if (/^#[0-9a-fA-F]{8}$/.test(trimmed)) {
@@ -298,11 +441,34 @@ function serializeDisplayNodeCommon(
 		storage_name: node.storage_name,
 		parent: node.parent,
 		base_scale: node.base_scale,
+		// The rest pose, which `rig.spawn` applies when the rig has no `default` animation
+		default_matrix: rotateMatrix(node.default_transform.matrix.elements),
+		bounding_box: {
+			min: node.bounding_box.min.toArray(),
+			max: node.bounding_box.max.toArray(),
+		},
 		...defaultConfig,
 		...(Object.keys(variantConfigs).length > 0 ? { variant_configs: variantConfigs } : {}),
 	}
 }
 
+function serializeLocatorNodeCommon(
+	node: Extract<AnyRenderedNode, { type: 'locator' | 'camera' | 'interaction' }>
+): Record<string, unknown> {
+	const [defaultPx, defaultPy, defaultPz, defaultRx, defaultRy] = getLocatorTransformValues(
+		node.default_transform
+	)
+	return {
+		parent: node.parent,
+		node_type: node.type,
+		default_px: defaultPx,
+		default_py: defaultPy,
+		default_pz: defaultPz,
+		default_rx: defaultRx,
+		default_ry: defaultRy,
+	}
+}
+
 function serializeNodeForDF(
 	node: AnyRenderedNode,
 	defaultVariantModel?: IRenderedVariantModel
@@ -319,7 +485,7 @@ function serializeNodeForDF(
 				type: node.type,
 				data: {
 					...serializeDisplayNodeCommon(node),
-					material: ensureNamespacedId(Project!.animated_java.display_item),
+					material: getDFItemMaterial(),
 					item_display: 'head',
 					item_model: defaultVariantModel.item_model,
 				},
@@ -331,7 +497,10 @@ function serializeNodeForDF(
 				type: node.type,
 				data: {
 					...serializeDisplayNodeCommon(node),
-					text: normalizeTextTagValue(node.text),
+					text: jsonTextToMiniMessage(
+						node.text,
+						Project!.animated_java.target_minecraft_version
+					),
 					line_width: node.line_width,
 					background_color: node.background_color,
 					background_color_rgb: normalizeRgbHex(node.background_color),
@@ -368,19 +537,27 @@ function serializeNodeForDF(
 				},
 			}
 		}
-		case 'locator': {
-			const [defaultPx, defaultPy, defaultPz, defaultRx, defaultRy] =
-				getLocatorTransformValues(node.default_transform)
+		case 'locator':
+		case 'camera': {
+			return {
+				name: node.name,
+				type: node.type,
+				data: serializeLocatorNodeCommon(node),
+			}
+		}
+		case 'interaction': {
+			const config = InteractionConfig.fromJSON(node.config ?? {})
 			return {
 				name: node.name,
 				type: node.type,
 				data: {
-					parent: node.parent,
-					default_px: defaultPx,
-					default_py: defaultPy,
-					default_pz: defaultPz,
-					default_rx: defaultRx,
-					default_ry: defaultRy,
+					...serializeLocatorNodeCommon(node),
+					entity: 'interaction',
+					width: node.width,
+					height: node.height,
+					response: config.response,
+					on_interaction_function: config.onInteractionFunction,
+					on_attack_function: config.onAttackFunction,
 				},
 			}
 		}
@@ -389,6 +566,31 @@ function serializeNodeForDF(
 	}
 }
 
+/**
+ * Adds the id of the closest exported ancestor and the ids of the exported children, in outliner
+ * order, to every node. Nodes that aren't exported, like bones without a model, are skipped.
+ */
+function linkDFNodeHierarchy(nodes: Record<string, Node>, rig: IRenderedRig) {
+	for (const [uuid, node] of Object.entries(nodes)) {
+		let parentUuid = rig.nodes[uuid].parent
+		while (parentUuid && !(parentUuid in nodes)) {
+			parentUuid = (rig.nodes[parentUuid] as AnyRenderedNode | undefined)?.parent
+		}
+		if (!parentUuid) continue
+
+		const parent = nodes[parentUuid]
+		node.data = { ...node.data, parent_id: parent.name }
+		const children = parent.data?.children
+		parent.data = {
+			...parent.data,
+			children:
+				typeof children === 'string'
+					? children + DF_NODE_NAME_SEPARATOR + node.name
+					: node.name,
+		}
+	}
+}
+
 function buildNodeItemSNBT(nodeData: Node, fallbackItemMaterial: string): string | undefined {
 	if (!isSupportedDFNodeType(nodeData.type)) {
 		return
@@ -454,6 +656,14 @@ function buildNodeItemSNBT(nodeData: Node, fallbackItemMaterial: string): string
 			itemId = 'minecraft:paper'
 			break
 		}
+		case 'camera': {
+			itemId = 'minecraft:spyglass'
+			break
+		}
+		case 'interaction': {
+			itemId = 'minecraft:lead'
+			break
+		}
 	}
 
 	return `{components:{${components.join(',')}},count:1,id:"${escapeSnbtString(itemId)}"}`
@@ -461,12 +671,15 @@ function buildNodeItemSNBT(nodeData: Node, fallbackItemMaterial: string): string
 
 export async function exportJSONDF(options: {
 	rig: IRenderedRig
+	rigHash: string
 	animations: IRenderedAnimation[]
-	displayItemPath: string
 	textureExportFolder: string
 	modelExportFolder: string
-}) {
-	const { rig, animations, displayItemPath } = options
+	output?: DFTemplateOutput
+	/** Resends every template, even if it didn't change since the last export */
+	force?: boolean
+}): Promise<{ templateCount: number }> {
+	const { rig, rigHash, animations, output = 'codeclient', force } = options
 
 	const nodes: Record<string, Node> = {}
 	const defaultVariant = Object.values(rig.variants).find(variant => variant.is_default)
@@ -475,148 +688,241 @@ export async function exportJSONDF(options: {
 		if (!renderedNode) continue
 		nodes[uuid] = renderedNode
 	}
+	linkDFNodeHierarchy(nodes, rig)
 
-	const item = displayItemPath.split(/[\\/]/).pop()?.replace('.json', '') ?? 'stone'
+	const transformEncoding = Project!.animated_java.df_transform_encoding
+	const functionNamespace = Project!.animated_java.df_function_namespace
+	const initFunctionPrefix = getDFInitFunctionPrefix(functionNamespace)
 
 	const dataForTemplate: DFTemplateData = {
-		model_name: Project!.name,
-		item_material: item,
+		model_name: getDFModelId(),
+		item_material: getDFItemMaterial(),
 		nodes,
 	}
 
-	const animationData: RawAnimationData = {}
-	const usedAnimationNames = new Set<string>()
-
 	const variantData: RawVariantData = {}
 	for (const variant of Object.values(rig.variants)) {
 		if (variant.is_default) continue
 
-		const variantNodes = Object.keys(variant.models)
-			.map(nodeUuid => nodes[nodeUuid]?.name)
-			.filter((nodeName): nodeName is string => Boolean(nodeName))
+		const variantNodes: Node[] = []
+		for (const [nodeUuid, model] of Object.entries(variant.models)) {
+			const node = nodes[nodeUuid] as Node | undefined
+			if (node?.type !== 'bone') continue
+			variantNodes.push({ ...node, data: { ...node.data, item_model: model.item_model } })
+		}
 
 		variantData[variant.name] = variantNodes
 	}
 
-	for (const animation of animations) {
-		const animationName = makeUniqueName(toDFAnimationName(animation.name), usedAnimationNames)
-
-		animationData[animationName] = {
-			length: animation.duration,
-			nodes: {},
-		}
-
-		const cachedAnimationData: Record<string, string[]> = {}
-		const lastKnownAnimationDataByNode: Record<string, string | undefined> = {}
-		for (const frame of animation.frames) {
-			for (const nodeUuid of Object.keys(nodes)) {
-				const nodeTransform = frame.node_transforms[nodeUuid]
-				if (nodeTransform) {
-					if (nodes[nodeUuid].type === 'locator') {
-						lastKnownAnimationDataByNode[nodeUuid] = compressLocatorTransform(
-							getLocatorTransformValues(nodeTransform)
-						)
-					} else {
-						const matrix = nodeTransform.matrix.elements
-						lastKnownAnimationDataByNode[nodeUuid] = compressMatrix(
-							rotateMatrix(matrix)
-						)
-					}
-				}
-
-				const animationDataForFrame = lastKnownAnimationDataByNode[nodeUuid]
-				if (!animationDataForFrame) continue
+	const usedAnimationNames = new Set<string>()
+	const namedAnimations = animations.map(animation => ({
+		name: makeUniqueName(toDFAnimationName(animation.name), usedAnimationNames),
+		animation,
+	}))
+
+	// Only templates that changed since they were last sent to CodeClient are sent again.
+	const previousHashes = output !== 'file' && !force ? Project!.last_sent_df_hashes : undefined
+	const hashes: IBlueprintDFTemplateHashesJSON = {
+		rig: hashStrings([
+			rigHash,
+			String(DF_RIG_FORMAT_VERSION),
+			initFunctionPrefix,
+			dataForTemplate.model_name,
+			dataForTemplate.item_material,
+			// The rig hash only covers the default variant
+			JSON.stringify(variantData),
+			...namedAnimations.map(({ name }) => name),
+		]),
+		animations: {},
+	}
 
-				cachedAnimationData[nodeUuid] = cachedAnimationData[nodeUuid] || []
-				cachedAnimationData[nodeUuid].push(animationDataForFrame)
-			}
-		}
+	const animationData: RawAnimationData = {}
+	for (const { name, animation } of namedAnimations) {
+		hashes.animations[name] = hashStrings([
+			rigHash,
+			String(DF_RIG_FORMAT_VERSION),
+			initFunctionPrefix,
+			dataForTemplate.model_name,
+			name,
+			hashAnimations([animation]),
+			// Variant keyframes store the names of their variants, `hashAnimations` only their UUIDs
+			encodeKeyframeRecords(collectAnimationVariantKeyframes(animation, rig)),
+			animation.loop_delay.toString(),
+			transformEncoding,
+		])
+		if (previousHashes?.animations[name] === hashes.animations[name]) continue
+
+		animationData[name] = await encodeAnimation(animation, nodes, rig, transformEncoding)
+	}
 
-		const compressedAnimationData: Record<string, string> = {}
-		for (const [nodeUuid, matrices] of Object.entries(cachedAnimationData)) {
-			const joinedMatrices = matrices.join('')
-			const gzipped = await textToGZip(joinedMatrices)
+	const templates: CodeClientTemplateItem[] = []
+	if (previousHashes?.rig !== hashes.rig) {
+		templates.push(
+			...(await buildInitTemplates(
+				initFunctionPrefix,
+				dataForTemplate.model_name,
+				`Init Rig ${dataForTemplate.model_name}`,
+				DF_INIT_PARAMETERS,
+				false,
+				buildRigTemplateUnits(
+					dataForTemplate,
+					namedAnimations.map(({ name }) => name),
+					variantData,
+					initFunctionPrefix
+				)
+			))
+		)
+	}
+	for (const [animationName, animation] of Object.entries(animationData)) {
+		templates.push(
+			...(await buildInitTemplates(
+				initFunctionPrefix,
+				getAnimationInitFunctionName(dataForTemplate.model_name, animationName),
+				`Init Animation ${dataForTemplate.model_name} ${animationName}`,
+				DF_ANIMATION_INIT_PARAMETERS,
+				true,
+				buildAnimationTemplateUnits(animationName, animation)
+			))
+		)
+	}
 
-			compressedAnimationData[nodes[nodeUuid].name] = gzipped
-		}
-		animationData[animationName].nodes = compressedAnimationData
+	// Base templates aren't hashed, they are sent along with every export
+	if (Project!.animated_java.df_include_base_templates) {
+		templates.push(...buildDFBaseTemplateItems(undefined, functionNamespace))
 	}
 
-	const codeTemplate = buildCodeTemplate(dataForTemplate, animationData, variantData)
 	try {
-		await sendTemplatesToCodeClient(
-			[
-				{
-					template: codeTemplate,
-					templateName: Project!.name,
-					displayName: `Init Rig ${Project!.name}`,
-				},
-			],
-			textToGZip
-		)
+		if (output === 'file') {
+			const templateFile = await buildDFTemplateFile(templates, textToGZip)
+			saveDFTemplateFile(`${initFunctionPrefix}${dataForTemplate.model_name}`, templateFile)
+			return { templateCount: templates.length }
+		}
+		if (templates.length > 0) {
+			await sendTemplatesToCodeClient(
+				templates,
+				textToGZip,
+				output === 'place' ? 'place' : 'give'
+			)
+		}
+		Project!.last_sent_df_hashes = hashes
+		return { templateCount: templates.length }
 	} catch (error) {
 		if (error instanceof CodeClientError) {
-			throw new DFExportError(error.message, error.cause)
+			throw new DFExportError(error.message, error)
 		}
 		throw error
 	}
 }
 
-function buildCodeTemplate(
-	templateData: DFTemplateData,
-	rawAnimationData: RawAnimationData,
-	rawVariantData: RawVariantData
-): CodeTemplate {
-	// {"blocks":[
-	// {"id":"block","block":"func","args":{"items":[{"item":{"id":"pn_el","data":{"name":"nodes","type":"var","plural":false,"optional":false}},"slot":0},{"item":{"id":"pn_el","data":{"name":"animations","type":"var","plural":false,"optional":false}},"slot":1},{"item":{"id":"hint","data":{"id":"function"}},"slot":25},{"item":{"id":"bl_tag","data":{"option":"False","tag":"Is Hidden","action":"dynamic","block":"func"}},"slot":26}]},"data":"consts.rig.NAME"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"nodes","scope":"line"}},"slot":0},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"leg_right\",\"hypercube:type\":\"model\"}},\"minecraft:custom_model_data\":2},count:1,id:\"minecraft:lime_candle\"}"}},"slot":1},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"backpack\",\"hypercube:type\":\"text\"}},\"minecraft:custom_name\":'{\"color\":\"red\",\"italic\":false,\"text\":\"asdf\"}'},count:1,id:\"minecraft:name_tag\"}"}},"slot":2},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"held\",\"hypercube:type\":\"item\"}}},count:1,id:\"minecraft:diamond_sword\"}"}},"slot":3}]},"action":"CreateList"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"animations","scope":"line"}},"slot":0},{"item":{"id":"txt","data":{"name":"default"}},"slot":1},{"item":{"id":"txt","data":{"name":"soem really long compressed gzip"}},"slot":2}]},"action":"SetDictValue"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"animations","scope":"line"}},"slot":0},{"item":{"id":"txt","data":{"name":"wave"}},"slot":1},{"item":{"id":"txt","data":{"name":"soem really long compressed gzip"}},"slot":2}]},"action":"SetDictValue"}
-	// ]}
+function hashStrings(values: string[]): string {
+	const hash = crypto.createHash('sha256')
+	for (const value of values) {
+		hash.update(value + ';')
+	}
+	return hash.digest('hex')
+}
+
+async function encodeAnimation(
+	animation: IRenderedAnimation,
+	nodes: Record<string, Node>,
+	rig: IRenderedRig,
+	transformEncoding: DFTransformEncoding
+): Promise<RawAnimationData[string]> {
+	const keyframes: Record<string, string> = {}
+	const events = collectAnimationEvents(animation, nodes)
+	if (events.length > 0) keyframes.events = encodeKeyframeRecords(events)
+	const variantKeyframes = collectAnimationVariantKeyframes(animation, rig)
+	if (variantKeyframes.length > 0) keyframes.variants = encodeKeyframeRecords(variantKeyframes)
+
+	const cachedAnimationData: Record<string, number[][]> = {}
+	const lastKnownAnimationDataByNode: Record<string, number[] | undefined> = {}
+	for (const frame of animation.frames) {
+		for (const nodeUuid of Object.keys(nodes)) {
+			const nodeTransform = frame.node_transforms[nodeUuid]
+			if (nodeTransform) {
+				lastKnownAnimationDataByNode[nodeUuid] = isLocatorNodeType(nodes[nodeUuid].type)
+					? getLocatorTransformValues(nodeTransform)
+					: getTransformValues(nodeTransform, transformEncoding)
+			}
 
-	const template: CodeTemplate = {
-		blocks: [],
+			const animationDataForFrame = lastKnownAnimationDataByNode[nodeUuid]
+			if (!animationDataForFrame) continue
+
+			cachedAnimationData[nodeUuid] = cachedAnimationData[nodeUuid] || []
+			cachedAnimationData[nodeUuid].push(animationDataForFrame)
+		}
 	}
 
-	// Function Block
-	template.blocks.push({
+	const compressedAnimationData: Record<string, string> = {}
+	for (const [nodeUuid, frames] of Object.entries(cachedAnimationData)) {
+		const { name: nodeName, type } = nodes[nodeUuid]
+		const encoded = encodeAnimationFrames(frames, {
+			label: `Node '${nodeName}' of animation '${animation.name}'`,
+			precision: isLocatorNodeType(type)
+				? LOCATOR_CHANNEL_PRECISION
+				: CHANNEL_PRECISION[transformEncoding],
+		})
+
+		compressedAnimationData[nodeName] = ANIMATION_DATA_PREFIX + (await textToGZip(encoded))
+	}
+
+	return {
+		length: animation.duration,
+		loop_mode: animation.loop_mode,
+		loop_delay: animation.loop_delay,
+		nodes: compressedAnimationData,
+		modified_nodes: Object.keys(animation.modified_nodes)
+			.map(nodeUuid => nodes[nodeUuid] as Node | undefined)
+			.filter((node): node is Node => node != undefined && !isLocatorNodeType(node.type))
+			.map(node => node.name),
+		keyframes,
+	}
+}
+
+/** The name of the init function of an animation, without the init function prefix */
+export function getAnimationInitFunctionName(modelName: string, animationName: string): string {
+	return `${modelName}.anim.${animationName}`
+}
+
+function buildInitFunctionBlock(
+	functionName: string,
+	displayName: string,
+	parameters: readonly string[],
+	hidden: boolean
+): CodeBlock {
+	return {
 		id: 'block',
 		block: 'func',
-		data: `rig.init.${templateData.model_name}`,
+		data: functionName,
 		args: {
 			items: [
 				{
 					item: {
 						id: 'item',
 						data: {
-							item: `{id:"minecraft:turtle_egg",count:1,components:{"minecraft:custom_name":[{"text":"Init Rig ${templateData.model_name}","color":"#6DC7E9","italic":false}]}}`,
+							item: markTemplateIcon(
+								`{id:"minecraft:turtle_egg",count:1,components:{"minecraft:custom_name":[{"text":"${escapeSnbtString(displayName)}","color":"#6DC7E9","italic":false}]}}`,
+								{
+									[DF_TEMPLATE_MARKER_KEYS.rigFormat]:
+										String(DF_RIG_FORMAT_VERSION),
+								}
+							),
 						},
 					},
 					slot: 0,
 				},
-				{
+				...parameters.map((name, index) => ({
 					item: {
 						id: 'pn_el',
-						data: { name: 'nodes', type: 'var', plural: false, optional: false },
+						data: { name, type: 'var', plural: false, optional: false },
 					},
-					slot: 1,
-				},
-				{
-					item: {
-						id: 'pn_el',
-						data: { name: 'animations', type: 'var', plural: false, optional: false },
-					},
-					slot: 2,
-				},
-				{
-					item: {
-						id: 'pn_el',
-						data: { name: 'variants', type: 'var', plural: false, optional: false },
-					},
-					slot: 3,
-				},
+					slot: index + 1,
+				})),
 				{
 					item: {
 						id: 'bl_tag',
 						data: {
-							option: 'False',
+							option: hidden ? 'True' : 'False',
 							tag: 'Is Hidden',
 							action: 'dynamic',
 							block: 'func',
@@ -626,8 +932,76 @@ function buildCodeTemplate(
 				},
 			],
 		},
+	}
+}
+
+function buildInitCallBlock(functionName: string, parameters: readonly string[]): CodeBlock {
+	return {
+		id: 'block',
+		block: 'call_func',
+		data: functionName,
+		args: {
+			items: parameters.map((name, slot) => ({
+				item: { id: 'var', data: { name, scope: 'line' } },
+				slot,
+			})),
+		},
+	}
+}
+
+async function estimateCompressedSize(blocks: CodeBlock[]): Promise<number> {
+	return (await textToGZip(JSON.stringify(blocks))).length
+}
+
+/**
+ * Builds the templates of an init function. Functions that don't fit into a single template are
+ * split into `<function>`, `<function>.part2`, ... which call each other in order.
+ */
+export async function buildInitTemplates(
+	initFunctionPrefix: string,
+	name: string,
+	displayName: string,
+	parameters: readonly string[],
+	hidden: boolean,
+	units: DFTemplateUnit[]
+): Promise<CodeClientTemplateItem[]> {
+	const getPartName = (part: number) => (part === 1 ? name : `${name}.part${part}`)
+	const getPartFunctionName = (part: number) => initFunctionPrefix + getPartName(part)
+	const getPartDisplayName = (part: number) =>
+		part === 1 ? displayName : `${displayName} (Part ${part})`
+
+	const codeTemplates = await splitTemplateUnits(units, {
+		createFunctionBlock: part =>
+			buildInitFunctionBlock(
+				getPartFunctionName(part),
+				getPartDisplayName(part),
+				parameters,
+				// Only the first part is meant to be called directly
+				hidden || part > 1
+			),
+		createCallBlock: part => buildInitCallBlock(getPartFunctionName(part), parameters),
+		estimateCompressedSize,
 	})
 
+	return codeTemplates.map((template, index) => ({
+		template,
+		templateName: getPartName(index + 1),
+		displayName: getPartDisplayName(index + 1),
+	}))
+}
+
+export function buildRigTemplateUnits(
+	templateData: DFTemplateData,
+	animationNames: string[],
+	rawVariantData: RawVariantData,
+	initFunctionPrefix: string
+): DFTemplateUnit[] {
+	// {"blocks":[
+	// {"id":"block","block":"func","args":{"items":[{"item":{"id":"pn_el","data":{"name":"nodes","type":"var","plural":false,"optional":false}},"slot":0},{"item":{"id":"pn_el","data":{"name":"animations","type":"var","plural":false,"optional":false}},"slot":1},{"item":{"id":"hint","data":{"id":"function"}},"slot":25},{"item":{"id":"bl_tag","data":{"option":"False","tag":"Is Hidden","action":"dynamic","block":"func"}},"slot":26}]},"data":"consts.rig.NAME"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"nodes","scope":"line"}},"slot":0},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"leg_right\",\"hypercube:type\":\"model\"}},\"minecraft:custom_model_data\":2},count:1,id:\"minecraft:lime_candle\"}"}},"slot":1},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"backpack\",\"hypercube:type\":\"text\"}},\"minecraft:custom_name\":'{\"color\":\"red\",\"italic\":false,\"text\":\"asdf\"}'},count:1,id:\"minecraft:name_tag\"}"}},"slot":2},{"item":{"id":"item","data":{"item":"{DF_NBT:3955,components:{\"minecraft:custom_data\":{PublicBukkitValues:{\"hypercube:id\":\"held\",\"hypercube:type\":\"item\"}}},count:1,id:\"minecraft:diamond_sword\"}"}},"slot":3}]},"action":"CreateList"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"animations","scope":"line"}},"slot":0},{"item":{"id":"txt","data":{"name":"default"}},"slot":1},{"item":{"id":"txt","data":{"name":"soem really long compressed gzip"}},"slot":2}]},"action":"SetDictValue"},{"id":"block","block":"set_var","args":{"items":[{"item":{"id":"var","data":{"name":"animations","scope":"line"}},"slot":0},{"item":{"id":"txt","data":{"name":"wave"}},"slot":1},{"item":{"id":"txt","data":{"name":"soem really long compressed gzip"}},"slot":2}]},"action":"SetDictValue"}
+	// ]}
+
+	const units: DFTemplateUnit[] = []
+
 	// Set Nodes Variable Block
 	let nodesVarBlock: CodeBlock = {
 		id: 'block',
@@ -644,9 +1018,12 @@ function buildCodeTemplate(
 	}
 
 	const slotLimit = 27
+	let nodeNames: string[] = []
+	const getNodesLabel = () => `Node data (${nodeNames.join(', ')})`
 	for (const nodeData of Object.values(templateData.nodes)) {
 		const itemSnbt = buildNodeItemSNBT(nodeData, templateData.item_material)
 		if (!itemSnbt) continue
+		nodeNames.push(nodeData.name)
 
 		nodesVarBlock.args!.items!.push({
 			item: {
@@ -660,7 +1037,8 @@ function buildCodeTemplate(
 
 		if (nodesVarBlock.args!.items!.length >= slotLimit) {
 			// push current block and start a new one
-			template.blocks.push(nodesVarBlock)
+			units.push({ blocks: [nodesVarBlock], label: getNodesLabel() })
+			nodeNames = []
 			nodesVarBlock = {
 				id: 'block',
 				block: 'set_var',
@@ -677,82 +1055,20 @@ function buildCodeTemplate(
 		}
 	}
 	if (nodesVarBlock.action === 'CreateList' || nodesVarBlock.args!.items!.length > 1) {
-		template.blocks.push(nodesVarBlock)
+		units.push({ blocks: [nodesVarBlock], label: getNodesLabel() })
 	}
 
-	// Set Animations Variable Blocks
-	for (const [animationName, animation] of Object.entries(rawAnimationData)) {
-		let animationBlock: CodeBlock = {
-			id: 'block',
-			block: 'set_var',
-			action: 'CreateList',
-			args: {
-				items: [
-					{
-						item: { id: 'var', data: { name: animationName, scope: 'line' } },
-						slot: 0,
-					},
-				],
-			},
-		}
-
-		animationBlock.args!.items!.push({
-			item: { id: 'num', data: { name: animation.length.toString() } },
-			slot: animationBlock.args!.items!.length,
+	// Call Animation Functions
+	for (const animationName of animationNames) {
+		units.push({
+			blocks: [
+				buildInitCallBlock(
+					initFunctionPrefix +
+						getAnimationInitFunctionName(templateData.model_name, animationName),
+					DF_ANIMATION_INIT_PARAMETERS
+				),
+			],
 		})
-
-		// add node data
-		for (const [nodeName, compressedMatrix] of Object.entries(animation.nodes)) {
-			if (animationBlock.args!.items!.length + 2 > slotLimit) {
-				// push current block and start a new one
-				template.blocks.push(animationBlock)
-				animationBlock = {
-					id: 'block',
-					block: 'set_var',
-					action: 'AppendValue',
-					args: {
-						items: [
-							{
-								item: { id: 'var', data: { name: animationName, scope: 'line' } },
-								slot: 0,
-							},
-						],
-					},
-				}
-			}
-			animationBlock.args!.items!.push({
-				item: { id: 'txt', data: { name: nodeName } },
-				slot: animationBlock.args!.items!.length,
-			})
-			animationBlock.args!.items!.push({
-				item: { id: 'txt', data: { name: compressedMatrix } },
-				slot: animationBlock.args!.items!.length,
-			})
-		}
-		if (animationBlock.args!.items!.length > 1) template.blocks.push(animationBlock)
-
-		const setDictValueBlock: CodeBlock = {
-			id: 'block',
-			block: 'set_var',
-			action: 'SetDictValue',
-			args: {
-				items: [
-					{
-						item: { id: 'var', data: { name: 'animations', scope: 'line' } },
-						slot: 0,
-					},
-					{
-						item: { id: 'txt', data: { name: animationName } },
-						slot: 1,
-					},
-					{
-						item: { id: 'var', data: { name: animationName, scope: 'line' } },
-						slot: 2,
-					},
-				],
-			},
-		}
-		template.blocks.push(setDictValueBlock)
 	}
 
 	// Set Variant Variable Blocks
@@ -771,11 +1087,21 @@ function buildCodeTemplate(
 			},
 		}
 
-		// add node data
-		for (const nodeName of variant) {
-			if (variantBlock.args!.items!.length + 2 > slotLimit) {
+		// add node items
+		let variantNodeNames: string[] = []
+		const getVariantLabel = () => `Variant "${variantName}" (${variantNodeNames.join(', ')})`
+		for (const nodeData of variant) {
+			const itemSnbt = buildNodeItemSNBT(nodeData, templateData.item_material)
+			if (!itemSnbt) continue
+
+			if (variantBlock.args!.items!.length >= slotLimit) {
 				// push current block and start a new one
-				template.blocks.push(variantBlock)
+				units.push({
+					blocks: [variantBlock],
+					pendingList: { name: variantName, dictionary: 'variants' },
+					label: getVariantLabel(),
+				})
+				variantNodeNames = []
 				variantBlock = {
 					id: 'block',
 					block: 'set_var',
@@ -791,11 +1117,18 @@ function buildCodeTemplate(
 				}
 			}
 			variantBlock.args!.items!.push({
-				item: { id: 'txt', data: { name: nodeName } },
+				item: { id: 'item', data: { item: itemSnbt } },
 				slot: variantBlock.args!.items!.length,
 			})
+			variantNodeNames.push(nodeData.name)
+		}
+		if (variantBlock.args!.items!.length > 1) {
+			units.push({
+				blocks: [variantBlock],
+				pendingList: { name: variantName, dictionary: 'variants' },
+				label: getVariantLabel(),
+			})
 		}
-		if (variantBlock.args!.items!.length > 1) template.blocks.push(variantBlock)
 
 		const setDictValueBlock: CodeBlock = {
 			id: 'block',
@@ -818,8 +1151,113 @@ function buildCodeTemplate(
 				],
 			},
 		}
-		template.blocks.push(setDictValueBlock)
+		units.push({ blocks: [setDictValueBlock] })
+	}
+
+	return units
+}
+
+export function buildAnimationTemplateUnits(
+	animationName: string,
+	animation: RawAnimationData[string]
+): DFTemplateUnit[] {
+	const slotLimit = 27
+	const units: DFTemplateUnit[] = []
+
+	let animationBlock: CodeBlock = {
+		id: 'block',
+		block: 'set_var',
+		action: 'CreateList',
+		args: {
+			items: [
+				{
+					item: { id: 'var', data: { name: animationName, scope: 'line' } },
+					slot: 0,
+				},
+			],
+		},
+	}
+
+	animationBlock.args!.items!.push({
+		item: { id: 'num', data: { name: animation.length.toString() } },
+		slot: animationBlock.args!.items!.length,
+	})
+
+	// add node data, animation properties and keyframe channels
+	const animationEntries = [
+		...Object.entries(animation.nodes),
+		...Object.entries({
+			loop_mode: animation.loop_mode,
+			loop_delay: animation.loop_delay.toString(),
+			modified_nodes: animation.modified_nodes.join(DF_NODE_NAME_SEPARATOR),
+			...animation.keyframes,
+		}).map(([property, value]) => [`${DF_ANIMATION_PROPERTY_PREFIX}${property}`, value]),
+	]
+	let entryNames: string[] = []
+	const getAnimationLabel = () => `Animation "${animationName}" (${entryNames.join(', ')})`
+	for (const [entryName, entryData] of animationEntries) {
+		if (animationBlock.args!.items!.length + 2 > slotLimit) {
+			// push current block and start a new one
+			units.push({
+				blocks: [animationBlock],
+				pendingList: { name: animationName, dictionary: 'animations' },
+				label: getAnimationLabel(),
+			})
+			entryNames = []
+			animationBlock = {
+				id: 'block',
+				block: 'set_var',
+				action: 'AppendValue',
+				args: {
+					items: [
+						{
+							item: { id: 'var', data: { name: animationName, scope: 'line' } },
+							slot: 0,
+						},
+					],
+				},
+			}
+		}
+		animationBlock.args!.items!.push({
+			item: { id: 'txt', data: { name: entryName } },
+			slot: animationBlock.args!.items!.length,
+		})
+		animationBlock.args!.items!.push({
+			item: { id: 'txt', data: { name: entryData } },
+			slot: animationBlock.args!.items!.length,
+		})
+		entryNames.push(entryName)
+	}
+	if (animationBlock.args!.items!.length > 1) {
+		units.push({
+			blocks: [animationBlock],
+			pendingList: { name: animationName, dictionary: 'animations' },
+			label: getAnimationLabel(),
+		})
+	}
+
+	const setDictValueBlock: CodeBlock = {
+		id: 'block',
+		block: 'set_var',
+		action: 'SetDictValue',
+		args: {
+			items: [
+				{
+					item: { id: 'var', data: { name: 'animations', scope: 'line' } },
+					slot: 0,
+				},
+				{
+					item: { id: 'txt', data: { name: animationName } },
+					slot: 1,
+				},
+				{
+					item: { id: 'var', data: { name: animationName, scope: 'line' } },
+					slot: 2,
+				},
+			],
+		},
 	}
+	units.push({ blocks: [setDictValueBlock] })
 
-	return template
+	return units
 }
@@ -0,0 +1,534 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	block,
+	callFunction,
+	defineSourceTemplate,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	setVariable,
+	skipIteration,
+	styledText,
+	text,
+	variable,
+} from './codeBlocks'
+import type { CodeBlock } from './types'
+
+const CONVERT_DISPLAY_DATA: CodeBlock[] = [
+	setVariable('CreateList', [
+		variable('inputKeys'),
+		text('shadow_alt'),
+		text('see_through_alt'),
+		text('background_color_rgb'),
+		text('item_display'),
+		text('glowing_alt'),
+	]),
+	setVariable('CreateList', [
+		variable('outputKeys'),
+		text('shadow'),
+		text('see_through'),
+		text('background_color'),
+		text('model_type'),
+		text('glowing'),
+	]),
+	setVariable('CreateDict', [
+		variable('convertDict'),
+		variable('inputKeys'),
+		variable('outputKeys'),
+	]),
+	setVariable('CreateDict', [variable('convertedData')]),
+	...repeat(
+		'ForEachEntry',
+		[variable('key'), variable('value'), variable('data')],
+		[
+			...ifVariable(
+				'DictHasKey',
+				[variable('convertDict'), variable('key')],
+				[
+					setVariable('SetDictValue', [
+						variable('convertedData'),
+						text('%entry(convertDict,%var(key))'),
+						variable('value'),
+					]),
+				],
+				{
+					orElse: [
+						...ifVariable(
+							'=',
+							[variable('key'), text('brightness_override')],
+							[
+								...ifVariable(
+									'DictValueEquals',
+									[variable('data'), text('override_brightness'), text('true')],
+									[
+										setVariable('SetDictValue', [
+											variable('convertedData'),
+											text('brightness_block'),
+											variable('value'),
+										]),
+										setVariable('SetDictValue', [
+											variable('convertedData'),
+											text('brightness_sky'),
+											variable('value'),
+										]),
+										skipIteration(),
+									]
+								),
+							]
+						),
+						...ifVariable(
+							'=',
+							[variable('key'), text('glow_color')],
+							[
+								...ifVariable(
+									'DictValueEquals',
+									[variable('data'), text('override_glow_color'), text('false')],
+									[skipIteration()]
+								),
+							]
+						),
+						setVariable('SetDictValue', [
+							variable('convertedData'),
+							variable('key'),
+							variable('value'),
+						]),
+					],
+				}
+			),
+		]
+	),
+]
+
+const SET_TEXT_DISPLAY_DATA: CodeBlock[] = [
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('text')],
+		[
+			block('entity_action', 'TDisplayText', [styledText('%entry(data,text)')], {
+				tags: { 'Inherit Styles': 'True', 'Text Value Merging': 'No spaces' },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('line_width')],
+		[
+			block('entity_action', 'TDisplayLineWidth', [number('%entry(data,line_width)')], {
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('opacity')],
+		[
+			block('entity_action', 'TDisplayOpacity', [number('%entry(data,opacity)')], {
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('align')],
+		[
+			setVariable('=', [variable('align'), text('%entry(data,align)')]),
+			block('entity_action', 'TDisplayAlign', [], {
+				tags: { 'Text Alignment': { option: 'Center', variable: variable('align') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('shadow')],
+		[
+			setVariable('=', [variable('shadow'), text('%entry(data,shadow)')]),
+			block('entity_action', 'TDisplayShadow', [], {
+				tags: { 'Text Shadow': { option: 'Disable', variable: variable('shadow') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('see_through')],
+		[
+			setVariable('=', [variable('see_through'), text('%entry(data,see_through)')]),
+			block('entity_action', 'TDisplaySeeThru', [], {
+				tags: { 'See-through': { option: 'Disable', variable: variable('see_through') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKeys',
+		[variable('data'), text('background_color'), text('background_alpha')],
+		[
+			...ifVariable(
+				'DictHasKeys',
+				[variable('data'), text('background_color'), text('background_alpha')],
+				[
+					block(
+						'entity_action',
+						'TDispBackground',
+						[
+							text('%entry(data,background_color)'),
+							number('%math(%entry(data,background_alpha)*100)'),
+						],
+						{ target: 'Selection' }
+					),
+				],
+				{
+					tags: { 'Check Mode': 'Has All Keys' },
+					orElse: [
+						...ifVariable(
+							'DictHasKey',
+							[variable('data'), text('background_color')],
+							[
+								block(
+									'entity_action',
+									'TDispBackground',
+									[text('%entry(data,background_color)'), number(0.25)],
+									{ target: 'Selection' }
+								),
+							],
+							{
+								orElse: [
+									block(
+										'entity_action',
+										'TDispBackground',
+										[
+											text('#000000'),
+											number('%math(%entry(data,background_alpha)*100)'),
+										],
+										{ target: 'Selection' }
+									),
+								],
+							}
+						),
+					],
+				}
+			),
+		],
+		{ tags: { 'Check Mode': 'Has Any Key' } }
+	),
+	callFunction('rig.setGenericDisplayData', [variable('data')]),
+]
+
+const SET_ITEM_DISPLAY_DATA: CodeBlock[] = [
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('item')],
+		[
+			setVariable('GetDictValue', [variable('item'), variable('data'), text('item')]),
+			block('entity_action', 'IDisplayItem', [variable('item')], { target: 'Selection' }),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('model_type')],
+		[
+			setVariable('=', [variable('model_type'), text('%entry(data,model_type)')]),
+			block('entity_action', 'IDisplayModelType', [], {
+				tags: { 'Model Type': { option: 'None', variable: variable('model_type') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('glow_color')],
+		[
+			block('entity_action', 'DisplayGlowColor', [text('%entry(data,glow_color)')], {
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('glowing')],
+		[
+			setVariable('=', [variable('glowing'), text('%entry(data,glowing)')]),
+			block('entity_action', 'SetGlowing', [], {
+				tags: { Glowing: { option: 'Disable', variable: variable('glowing') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	callFunction('rig.setGenericDisplayData', [variable('data')]),
+]
+
+const SET_BLOCK_DISPLAY_DATA: CodeBlock[] = [
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('block')],
+		[
+			setVariable('GetDictValue', [variable('block'), variable('data'), text('block')]),
+			block(
+				'entity_action',
+				'BDisplayBlock',
+				[variable('block'), text('%entry(data,block_states)')],
+				{ target: 'Selection' }
+			),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('glow_color')],
+		[
+			block('entity_action', 'DisplayGlowColor', [text('%entry(data,glow_color)')], {
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('glowing')],
+		[
+			setVariable('=', [variable('glowing'), text('%entry(data,glowing)')]),
+			block('entity_action', 'SetGlowing', [], {
+				tags: { Glowing: { option: 'Disable', variable: variable('glowing') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	callFunction('rig.setGenericDisplayData', [variable('data')]),
+]
+
+const SET_GENERIC_DISPLAY_DATA: CodeBlock[] = [
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('view_range')],
+		[
+			block('entity_action', 'DisplayViewRange', [number('%entry(data,view_range)')], {
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKey',
+		[variable('data'), text('billboard')],
+		[
+			setVariable('=', [variable('billboard'), text('%entry(data,billboard)')]),
+			block('entity_action', 'DisplayBillboard', [], {
+				tags: { 'Billboard Type': { option: 'Fixed', variable: variable('billboard') } },
+				target: 'Selection',
+			}),
+		]
+	),
+	...ifVariable(
+		'DictHasKeys',
+		[variable('data'), text('shadow_radius'), text('shadow_strength')],
+		[
+			...ifVariable(
+				'DictHasKeys',
+				[variable('data'), text('shadow_radius'), text('shadow_strength')],
+				[
+					block(
+						'entity_action',
+						'DisplayShadow',
+						[
+							number('%entry(data,shadow_radius)'),
+							number('%math(%entry(data,shadow_strength)*100)'),
+						],
+						{ target: 'Selection' }
+					),
+				],
+				{
+					tags: { 'Check Mode': 'Has All Keys' },
+					orElse: [
+						...ifVariable(
+							'DictHasKey',
+							[variable('data'), text('shadow_radius')],
+							[
+								block(
+									'entity_action',
+									'DisplayShadow',
+									[number('%entry(data,shadow_radius)'), number(100)],
+									{ target: 'Selection' }
+								),
+							],
+							{
+								orElse: [
+									block(
+										'entity_action',
+										'DisplayShadow',
+										[
+											number(1),
+											number('%math(%entry(data,shadow_strength)*100)'),
+										],
+										{ target: 'Selection' }
+									),
+								],
+							}
+						),
+					],
+				}
+			),
+		],
+		{ tags: { 'Check Mode': 'Has Any Key' } }
+	),
+	...ifVariable(
+		'DictHasKeys',
+		[variable('data'), text('brightness_block'), text('brightness_sky')],
+		[
+			...ifVariable(
+				'DictHasKeys',
+				[variable('data'), text('brightness_block'), text('brightness_sky')],
+				[
+					block(
+						'entity_action',
+						'DisplayBrightness',
+						[
+							number('%entry(data,brightness_block)'),
+							number('%entry(data,brightness_sky)'),
+						],
+						{ target: 'Selection' }
+					),
+				],
+				{
+					tags: { 'Check Mode': 'Has All Keys' },
+					orElse: [
+						...ifVariable(
+							'DictHasKey',
+							[variable('data'), text('brightness_block')],
+							[
+								block(
+									'entity_action',
+									'DisplayBrightness',
+									[
+										number('%entry(data,brightness_block)'),
+										number('%entry(data,brightness_block)'),
+									],
+									{ target: 'Selection' }
+								),
+							],
+							{
+								orElse: [
+									block(
+										'entity_action',
+										'DisplayBrightness',
+										[
+											number('%entry(data,brightness_sky)'),
+											number('%entry(data,brightness_sky)'),
+										],
+										{ target: 'Selection' }
+									),
+								],
+							}
+						),
+					],
+				}
+			),
+		],
+		{ tags: { 'Check Mode': 'Has Any Key' } }
+	),
+	...ifVariable(
+		'DictHasKeys',
+		[variable('data'), text('culling_size_height'), text('culling_size_width')],
+		[
+			...ifVariable(
+				'DictHasKeys',
+				[variable('data'), text('culling_size_height'), text('culling_size_width')],
+				[
+					block(
+						'entity_action',
+						'DisplayCullingSize',
+						[
+							number('%entry(data,culling_size_width)'),
+							number('%entry(data,culling_size_height)'),
+						],
+						{ target: 'Selection' }
+					),
+				],
+				{
+					tags: { 'Check Mode': 'Has All Keys' },
+					orElse: [
+						...ifVariable(
+							'DictHasKey',
+							[variable('data'), text('culling_size_height')],
+							[
+								block(
+									'entity_action',
+									'DisplayCullingSize',
+									[number(0), number('%entry(data,culling_size_height)')],
+									{ target: 'Selection' }
+								),
+							],
+							{
+								orElse: [
+									block(
+										'entity_action',
+										'DisplayCullingSize',
+										[number('%entry(data,culling_size_width)'), number(0)],
+										{ target: 'Selection' }
+									),
+								],
+							}
+						),
+					],
+				}
+			),
+		],
+		{ tags: { 'Check Mode': 'Has Any Key' } }
+	),
+]
+
+export const DF_DISPLAY_DATA_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'RigConvertDisplayData',
+		displayName: 'Convert Display Data',
+		functionName: 'rig.convertDisplayData',
+		category: 'core',
+		description: 'Converts display data into the rig helper format.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('convertedData', 'var', { description: 'Converted data' }),
+			parameter('data', 'dict', { description: 'Data' }),
+		],
+		blocks: CONVERT_DISPLAY_DATA,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSetTextDisplayData',
+		displayName: 'Set Text Display Data',
+		functionName: 'rig.setTextDisplayData',
+		category: 'core',
+		description: 'Applies text display data to the selected entities.',
+		usage: 3,
+		parameters: [parameter('data', 'dict', { description: 'Data' })],
+		blocks: SET_TEXT_DISPLAY_DATA,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSetItemDisplayData',
+		displayName: 'Set Item Display Data',
+		functionName: 'rig.setItemDisplayData',
+		category: 'core',
+		description: 'Applies item display data to the selected entities.',
+		usage: 3,
+		parameters: [parameter('data', 'dict', { description: 'Data' })],
+		blocks: SET_ITEM_DISPLAY_DATA,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSetBlockDisplayData',
+		displayName: 'Set Block Display Data',
+		functionName: 'rig.setBlockDisplayData',
+		category: 'core',
+		description: 'Applies block display data to the selected entities.',
+		usage: 3,
+		parameters: [parameter('data', 'dict', { description: 'Data' })],
+		blocks: SET_BLOCK_DISPLAY_DATA,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSetGenericDisplayData',
+		displayName: 'Set Generic Display Data',
+		functionName: 'rig.setGenericDisplayData',
+		category: 'core',
+		description: 'Applies generic display data to the selected entities.',
+		usage: 3,
+		parameters: [parameter('data', 'dict', { description: 'Data' })],
+		blocks: SET_GENERIC_DISPLAY_DATA,
+	}),
+]
@@ -0,0 +1,19 @@
+export class DFExportError extends Error {
+	constructor(
+		message: string,
+		public cause?: unknown
+	) {
+		super(message)
+		this.name = 'DFExportError'
+	}
+}
+
+export class DFTemplateDecodeError extends Error {
+	constructor(
+		message: string,
+		public cause?: unknown
+	) {
+		super(message)
+		this.name = 'DFTemplateDecodeError'
+	}
+}
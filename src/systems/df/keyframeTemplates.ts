@@ -0,0 +1,235 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	callFunction,
+	defineSourceTemplate,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	returnFromFunction,
+	setVariable,
+	text,
+	variable,
+} from './codeBlocks'
+
+// Keyframe channels are stored next to the node data of each animation as
+// `rig.<model>.anim.<anim>.@<channel>` and decoded lazily into a frame -> records dictionary.
+
+const DECODE_KEYFRAMES = [
+	setVariable('CreateDict', [variable('result')]),
+	setVariable('SplitString', [variable('records'), variable('data'), text(';')]),
+	...repeat(
+		'ForEach',
+		[variable('record'), variable('records')],
+		[
+			setVariable('SplitString', [variable('fields'), variable('record'), text('|')]),
+			setVariable('=', [variable('frame'), text('%index(fields,1)')]),
+			...ifVariable(
+				'DictHasKey',
+				[variable('result'), variable('frame')],
+				[
+					setVariable('GetDictValue', [
+						variable('frameRecords'),
+						variable('result'),
+						variable('frame'),
+					]),
+				],
+				{ orElse: [setVariable('CreateList', [variable('frameRecords')])] }
+			),
+			setVariable('AppendValue', [variable('frameRecords'), variable('record')]),
+			setVariable('SetDictValue', [
+				variable('result'),
+				variable('frame'),
+				variable('frameRecords'),
+			]),
+		]
+	),
+]
+
+const LOAD_KEYFRAMES = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).k.%var(anim).%var(channel)', 'unsaved')],
+		[
+			callFunction('rig.decodeKeyframes', [
+				variable('rig.%var(model).k.%var(anim).%var(channel)', 'unsaved'),
+				variable('rig.%var(model).anim.%var(anim).@%var(channel)', 'unsaved'),
+			]),
+		],
+		{ not: true }
+	),
+	setVariable('=', [
+		variable('result'),
+		variable('rig.%var(model).k.%var(anim).%var(channel)', 'unsaved'),
+	]),
+]
+
+const DISPATCH_EVENTS = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.%var(anim).@events', 'unsaved')],
+		[returnFromFunction()],
+		{ not: true }
+	),
+	callFunction('rig.loadKeyframes', [
+		variable('events'),
+		variable('model'),
+		variable('anim'),
+		text('events'),
+	]),
+	setVariable('=', [
+		variable('frame'),
+		number('%math(%var(t)%%var(rig.%var(model).anim.%var(anim).length)+1)'),
+	]),
+	...ifVariable('DictHasKey', [variable('events'), text('%var(frame)')], [returnFromFunction()], {
+		not: true,
+	}),
+	setVariable('GetDictValue', [variable('records'), variable('events'), text('%var(frame)')]),
+	...repeat(
+		'ForEach',
+		[variable('record'), variable('records')],
+		[
+			setVariable('SplitString', [variable('fields'), variable('record'), text('|')]),
+			setVariable('=', [variable('rig.event.id', 'local'), variable('id')]),
+			setVariable('=', [variable('rig.event.model', 'local'), variable('model')]),
+			setVariable('=', [variable('rig.event.anim', 'local'), variable('anim')]),
+			setVariable('=', [variable('rig.event.tick', 'local'), variable('t')]),
+			setVariable('=', [variable('rig.event.source', 'local'), text('%index(fields,2)')]),
+			setVariable('=', [variable('rig.event.condition', 'local'), text('')]),
+			...ifVariable(
+				'ListSizeEquals',
+				[variable('fields'), number(4)],
+				[
+					setVariable('=', [
+						variable('rig.event.condition', 'local'),
+						text('%index(fields,4)'),
+					]),
+				]
+			),
+			setVariable('=', [variable('function'), text('%index(fields,3)')]),
+			callFunction('%var(function)'),
+		]
+	),
+]
+
+const APPLY_VARIANT_KEYFRAMES = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.%var(anim).@variants', 'unsaved')],
+		[returnFromFunction()],
+		{ not: true }
+	),
+	callFunction('rig.loadKeyframes', [
+		variable('variants'),
+		variable('model'),
+		variable('anim'),
+		text('variants'),
+	]),
+	setVariable('=', [
+		variable('frame'),
+		number('%math(%var(t)%%var(rig.%var(model).anim.%var(anim).length)+1)'),
+	]),
+	...ifVariable(
+		'DictHasKey',
+		[variable('variants'), text('%var(frame)')],
+		[returnFromFunction()],
+		{ not: true }
+	),
+	setVariable('GetDictValue', [variable('records'), variable('variants'), text('%var(frame)')]),
+	...repeat(
+		'ForEach',
+		[variable('record'), variable('records')],
+		[
+			setVariable('SplitString', [variable('fields'), variable('record'), text('|')]),
+			// Like for function keyframes, the execute condition is only passed on as plain text
+			setVariable('=', [variable('rig.event.id', 'local'), variable('id')]),
+			setVariable('=', [variable('rig.event.model', 'local'), variable('model')]),
+			setVariable('=', [variable('rig.event.anim', 'local'), variable('anim')]),
+			setVariable('=', [variable('rig.event.tick', 'local'), variable('t')]),
+			setVariable('=', [variable('rig.event.condition', 'local'), text('')]),
+			...ifVariable(
+				'ListSizeEquals',
+				[variable('fields'), number(3)],
+				[
+					setVariable('=', [
+						variable('rig.event.condition', 'local'),
+						text('%index(fields,3)'),
+					]),
+				]
+			),
+			callFunction('rig.setVariant', [
+				variable('id'),
+				variable('model'),
+				text('%index(fields,2)'),
+			]),
+		]
+	),
+]
+
+export const DF_KEYFRAME_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'RigDispatchEvents',
+		displayName: 'Dispatch Events',
+		functionName: 'rig.dispatchEvents',
+		category: 'core',
+		description:
+			'Calls the functions of the function keyframes on the specified tick.\nCalled automatically by rig.animate.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('t', 'num', { description: 'Tick' }),
+		],
+		blocks: DISPATCH_EVENTS,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigApplyVariantKeyframes',
+		displayName: 'Apply Variant Keyframes',
+		functionName: 'rig.applyVariantKeyframes',
+		category: 'core',
+		description:
+			'Applies the variants of the variant keyframes on the specified tick.\nCalled automatically by rig.animate.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('t', 'num', { description: 'Tick' }),
+		],
+		blocks: APPLY_VARIANT_KEYFRAMES,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigLoadKeyframes',
+		displayName: 'Load Keyframes',
+		functionName: 'rig.loadKeyframes',
+		category: 'core',
+		description:
+			'Loads the decoded keyframes of a keyframe channel for the selected animation.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('channel', 'txt', { description: 'Keyframe channel' }),
+		],
+		blocks: LOAD_KEYFRAMES,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigDecodeKeyframes',
+		displayName: 'Decode Keyframes',
+		functionName: 'rig.decodeKeyframes',
+		category: 'core',
+		description: 'Decodes keyframe records into a dictionary of frame to records.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('data', 'txt', { description: 'Keyframe data' }),
+		],
+		blocks: DECODE_KEYFRAMES,
+	}),
+]
@@ -0,0 +1,267 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	block,
+	callFunction,
+	debugMessage,
+	defineSourceTemplate,
+	gameValue,
+	ifVariable,
+	number,
+	parameter,
+	returnFromFunction,
+	setVariable,
+	text,
+	variable,
+} from './codeBlocks'
+import type { CodeBlock } from './types'
+
+const APPLY_OFFSET_MATRIX: CodeBlock[] = [
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('offsetMatrix'), number(16)],
+		[debugMessage('Invalid matrix size, expected 4x4 (16).', 'Error'), returnFromFunction()],
+		{ not: true }
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[gameValue('Selection Target UUIDs')],
+		[
+			debugMessage(
+				'Apply Offset Matrix expected one or more selected node entities.',
+				'Error'
+			),
+			returnFromFunction(),
+		]
+	),
+	block('entity_action', 'GetCustomTag', [variable('%uuid model'), text('model')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'GetCustomTag', [variable('%uuid id'), text('model_id')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'GetCustomTag', [variable('%uuid node'), variable('%uuid model')], {
+		target: 'Selection',
+	}),
+	setVariable('=', [
+		variable('rig.%var(%uuid model).%var(%uuid id).%var(%uuid node).offsetMatrix', 'unsaved'),
+		variable('offsetMatrix'),
+	]),
+]
+
+const APPLY_OFFSET: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	block('select_obj', 'Reset', []),
+	callFunction('rig.composeMatrix', [
+		variable('offsetMatrix'),
+		variable('translation'),
+		variable('leftRotation'),
+		variable('scale'),
+		variable('rightRotation'),
+	]),
+	block('select_obj', 'EntityUUID', [variable('selection')]),
+	callFunction('rig.applyOffsetMatrix', [variable('offsetMatrix')]),
+]
+
+const REMOVE_OFFSET: CodeBlock[] = [
+	block('entity_action', 'GetCustomTag', [variable('%uuid model'), text('model')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'GetCustomTag', [variable('%uuid id'), text('model_id')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'GetCustomTag', [variable('%uuid node'), variable('%uuid model')], {
+		target: 'Selection',
+	}),
+	setVariable(
+		'PurgeVars',
+		[text('rig.%var(%uuid model).%var(%uuid id).%var(%uuid node).offsetMatrix')],
+		{ tags: { 'Match Requirement': 'Entire name', 'Ignore Case': 'False' } }
+	),
+]
+
+const COMPOSE_MATRIX: CodeBlock[] = [
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('t'), number(3)],
+		[setVariable('CreateList', [variable('t'), number(0), number(0), number(0)])],
+		{ not: true }
+	),
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('l'), number(4)],
+		[setVariable('CreateList', [variable('l'), number(0), number(0), number(0), number(1)])],
+		{ not: true }
+	),
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('s'), number(3)],
+		[setVariable('CreateList', [variable('s'), number(1), number(1), number(1)])],
+		{ not: true }
+	),
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('r'), number(4)],
+		[setVariable('CreateList', [variable('r'), number(0), number(0), number(0), number(1)])],
+		{ not: true }
+	),
+	setVariable('CreateList', [
+		variable('m'),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(1-%math(2*%index(l,2)*%index(l,2))-%math(2*%index(l,3)*%index(l,3)))*%math(1-%math(2*%index(r,2)*%index(r,2))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,1)*%index(l,2))-%math(2*%index(l,4)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,2))+%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,1)*%index(l,3))+%math(2*%index(l,4)*%index(l,2)))*%math(%math(2*%index(r,1)*%index(r,3))-%math(2*%index(r,4)*%index(r,2))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(1-%math(2*%index(l,2)*%index(l,2))-%math(2*%index(l,3)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,2))-%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,1)*%index(l,2))-%math(2*%index(l,4)*%index(l,3)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,1)*%index(l,3))+%math(2*%index(l,4)*%index(l,2)))*%math(%math(2*%index(r,2)*%index(r,3))+%math(2*%index(r,4)*%index(r,1))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(1-%math(2*%index(l,2)*%index(l,2))-%math(2*%index(l,3)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,3))+%math(2*%index(r,4)*%index(r,2)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,1)*%index(l,2))-%math(2*%index(l,4)*%index(l,3)))*%math(%math(2*%index(r,2)*%index(r,3))-%math(2*%index(r,4)*%index(r,1)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,1)*%index(l,3))+%math(2*%index(l,4)*%index(l,2)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,2)*%index(r,2))))))'
+		),
+		number('%index(t,1)'),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,2))+%math(2*%index(l,4)*%index(l,3)))*%math(1-%math(2*%index(r,2)*%index(r,2))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,2)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,3)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,2))+%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,2)*%index(l,3))-%math(2*%index(l,4)*%index(l,1)))*%math(%math(2*%index(r,1)*%index(r,3))-%math(2*%index(r,4)*%index(r,2))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,2))+%math(2*%index(l,4)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,2))-%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,2)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,3)*%index(l,3)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,2)*%index(l,3))-%math(2*%index(l,4)*%index(l,1)))*%math(%math(2*%index(r,2)*%index(r,3))+%math(2*%index(r,4)*%index(r,1))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,2))+%math(2*%index(l,4)*%index(l,3)))*%math(%math(2*%index(r,1)*%index(r,3))+%math(2*%index(r,4)*%index(r,2)))))+%math(%math(%index(s,2)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,3)*%index(l,3)))*%math(%math(2*%index(r,2)*%index(r,3))-%math(2*%index(r,4)*%index(r,1)))))+%math(%math(%index(s,3)*%math(%math(2*%index(l,2)*%index(l,3))-%math(2*%index(l,4)*%index(l,1)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,2)*%index(r,2))))))'
+		),
+		number('%index(t,2)'),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,3))-%math(2*%index(l,4)*%index(l,2)))*%math(1-%math(2*%index(r,2)*%index(r,2))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,2)*%index(l,3))+%math(2*%index(l,4)*%index(l,1)))*%math(%math(2*%index(r,1)*%index(r,2))+%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,3)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,2)*%index(l,2)))*%math(%math(2*%index(r,1)*%index(r,3))-%math(2*%index(r,4)*%index(r,2))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,3))-%math(2*%index(l,4)*%index(l,2)))*%math(%math(2*%index(r,1)*%index(r,2))-%math(2*%index(r,4)*%index(r,3)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,2)*%index(l,3))+%math(2*%index(l,4)*%index(l,1)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,3)*%index(r,3)))))+%math(%math(%index(s,3)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,2)*%index(l,2)))*%math(%math(2*%index(r,2)*%index(r,3))+%math(2*%index(r,4)*%index(r,1))))))'
+		),
+		number(
+			'%math(%math(%math(%index(s,1)*%math(%math(2*%index(l,1)*%index(l,3))-%math(2*%index(l,4)*%index(l,2)))*%math(%math(2*%index(r,1)*%index(r,3))+%math(2*%index(r,4)*%index(r,2)))))+%math(%math(%index(s,2)*%math(%math(2*%index(l,2)*%index(l,3))+%math(2*%index(l,4)*%index(l,1)))*%math(%math(2*%index(r,2)*%index(r,3))-%math(2*%index(r,4)*%index(r,1)))))+%math(%math(%index(s,3)*%math(1-%math(2*%index(l,1)*%index(l,1))-%math(2*%index(l,2)*%index(l,2)))*%math(1-%math(2*%index(r,1)*%index(r,1))-%math(2*%index(r,2)*%index(r,2))))))'
+		),
+		number('%index(t,3)'),
+		number(0),
+		number(0),
+		number(0),
+		number(1),
+	]),
+]
+
+// Blends every entry of the matrices linearly. Close poses blend smoothly, but a node that rotates
+// far between them shrinks halfway through, like in a linear keyframe of a matrix.
+const BLEND_MATRICES: CodeBlock[] = [
+	setVariable('CreateList', [
+		variable('result'),
+		...Array.from({ length: 16 }, (_, index) =>
+			number(
+				`%math(%index(from,${index + 1})+%math(%math(%index(to,${index + 1})-%index(from,${index + 1}))*%var(weight)))`
+			)
+		),
+	]),
+]
+
+export const DF_MATRIX_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'ApplyOffsetMatrix',
+		displayName: 'Apply Offset Matrix',
+		functionName: 'rig.applyOffsetMatrix',
+		category: 'optional',
+		description: 'Applies the specified offset matrix to the selected rig node entities.',
+		usage: 2,
+		glint: true,
+		parameters: [parameter('offsetMatrix', 'list', { description: 'Offset matrix' })],
+		blocks: APPLY_OFFSET_MATRIX,
+	}),
+	defineSourceTemplate({
+		templateName: 'ApplyOffset',
+		displayName: 'Apply Offset',
+		functionName: 'rig.applyOffset',
+		category: 'optional',
+		description:
+			'Creates an offset matrix from TLSR values and\napplies it to the selected rig node entities.',
+		usage: 2,
+		glint: true,
+		parameters: [
+			parameter('translation', 'list', {
+				description: 'Translation',
+				optional: true,
+				note: '[x, y, z]. Defaults to [0, 0, 0].',
+			}),
+			parameter('leftRotation', 'list', {
+				description: 'Left rotation',
+				optional: true,
+				note: '[x, y, z, w]. Defaults to [0, 0, 0, 1].',
+			}),
+			parameter('scale', 'list', {
+				description: 'Scale',
+				optional: true,
+				note: '[x, y, z]. Defaults to [1, 1, 1].',
+			}),
+			parameter('rightRotation', 'list', {
+				description: 'Right rotation',
+				optional: true,
+				note: '[x, y, z, w]. Defaults to [0, 0, 0, 1].',
+			}),
+		],
+		blocks: APPLY_OFFSET,
+	}),
+	defineSourceTemplate({
+		templateName: 'RemoveOffset',
+		displayName: 'Remove Offset',
+		functionName: 'rig.removeOffset',
+		category: 'optional',
+		description: 'Removes the stored offset matrix from the selected rig node entities.',
+		usage: 2,
+		glint: true,
+		parameters: [],
+		blocks: REMOVE_OFFSET,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigComposeMatrix',
+		displayName: 'Compose Matrix',
+		functionName: 'rig.composeMatrix',
+		category: 'core',
+		description: 'Creates a transformation matrix from TLSR values.',
+		usage: 3,
+		glint: true,
+		parameters: [
+			parameter('m', 'var', { description: 'Result' }),
+			parameter('t', 'list', {
+				description: 'Translation',
+				optional: true,
+				note: '[x, y, z]. Defaults to [0, 0, 0].',
+			}),
+			parameter('l', 'list', {
+				description: 'Left rotation',
+				optional: true,
+				note: '[x, y, z, w]. Defaults to [0, 0, 0, 1].',
+			}),
+			parameter('s', 'list', {
+				description: 'Scale',
+				optional: true,
+				note: '[x, y, z]. Defaults to [1, 1, 1].',
+			}),
+			parameter('r', 'list', {
+				description: 'Right rotation',
+				optional: true,
+				note: '[x, y, z, w]. Defaults to [0, 0, 0, 1].',
+			}),
+		],
+		blocks: COMPOSE_MATRIX,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigBlendMatrices',
+		displayName: 'Blend Matrices',
+		functionName: 'rig.blendMatrices',
+		category: 'core',
+		description: 'Blends two transformation matrices.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('from', 'list', { description: 'Start matrix' }),
+			parameter('to', 'list', { description: 'End matrix' }),
+			parameter('weight', 'num', {
+				description: 'Weight',
+				note: '<red>0 <gray>= <white>Start <dark_aqua>1 <gray>= <white>End',
+			}),
+		],
+		blocks: BLEND_MATRICES,
+	}),
+]
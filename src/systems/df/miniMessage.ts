@@ -0,0 +1,156 @@
+import {
+	type LegacyClickEvent,
+	type LegacyHoverEvent,
+	type ModernClickEvent,
+	type ModernHoverEvent,
+	type ShadowColor,
+	TextComponent,
+	TextComponentParser,
+	type TextElement,
+	type TextObject,
+} from 'book-and-quill'
+
+// Converts JSON text components into the MiniMessage format DF styled text uses
+
+const DECORATIONS = ['bold', 'italic', 'underlined', 'strikethrough', 'obfuscated'] as const
+
+const CLICK_ACTIONS = new Set([
+	'open_url',
+	'open_file',
+	'run_command',
+	'suggest_command',
+	'change_page',
+	'copy_to_clipboard',
+])
+
+interface MiniMessageTag {
+	open: string
+	close: string
+}
+
+function escapeText(text: string): string {
+	return text.replace(/[\\<]/g, character => `\\${character}`).replace(/\n/g, '<newline>')
+}
+
+// Arguments are quoted so they can contain colons and closing brackets
+function quoteArgument(argument: string): string {
+	return `'${argument.replace(/[\\']/g, character => `\\${character}`)}'`
+}
+
+function tag(name: string, ...args: string[]): MiniMessageTag {
+	return { open: `<${[name, ...args].join(':')}>`, close: `</${name}>` }
+}
+
+function getClickTag(event: LegacyClickEvent | ModernClickEvent): MiniMessageTag | undefined {
+	if (!CLICK_ACTIONS.has(event.action)) return
+	// Before 1.21.5 the target of every action was stored in `value`
+	const target = event as Partial<Record<'value' | 'url' | 'command' | 'path' | 'page', unknown>>
+	const value = target.value ?? target.url ?? target.command ?? target.path ?? target.page
+	if (value == undefined) return
+	return tag('click', event.action, quoteArgument(String(value)))
+}
+
+function getHoverTag(event: LegacyHoverEvent | ModernHoverEvent): MiniMessageTag | undefined {
+	// Only text can be shown, MiniMessage can't describe the items and entities of the other actions
+	if (event.action !== 'show_text') return
+	const contents = 'value' in event ? event.value : event.contents
+	return tag('hover', 'show_text', quoteArgument(toMiniMessage(contents)))
+}
+
+function toHexByte(value: number): string {
+	return Math.round(value * 255)
+		.toString(16)
+		.padStart(2, '0')
+}
+
+function getShadowTag(shadowColor: ShadowColor): MiniMessageTag {
+	// The parser turns every shadow color into RGBA values between 0 and 1
+	const [r, g, b, a] = Array.isArray(shadowColor)
+		? shadowColor
+		: typeof shadowColor === 'number'
+			? TextComponent.intToRgba(shadowColor)
+			: TextComponent.hexToRgba(shadowColor)
+	return tag('shadow', `#${[r, g, b].map(toHexByte).join('')}`, String(Number(a.toFixed(2))))
+}
+
+function getStyleTags(component: TextObject): MiniMessageTag[] {
+	const tags: MiniMessageTag[] = []
+	if (component.color) tags.push(tag('color', component.color))
+	if (component.shadow_color != undefined) tags.push(getShadowTag(component.shadow_color))
+	if (component.font) tags.push(tag('font', component.font))
+	for (const decoration of DECORATIONS) {
+		const value = component[decoration]
+		if (value === true) tags.push(tag(decoration))
+		else if (value === false) tags.push(tag(decoration, 'false'))
+	}
+	if (component.insertion) tags.push(tag('insert', quoteArgument(component.insertion)))
+
+	const clickEvent = component.click_event ?? component.clickEvent
+	const clickTag = clickEvent && getClickTag(clickEvent)
+	if (clickTag) tags.push(clickTag)
+
+	const hoverEvent = component.hover_event ?? component.hoverEvent
+	const hoverTag = hoverEvent && getHoverTag(hoverEvent)
+	if (hoverTag) tags.push(hoverTag)
+	return tags
+}
+
+function getContent(component: TextObject): string {
+	if (component.text != undefined) return escapeText(component.text)
+	if (component.translate != undefined) {
+		const args = (component.with ?? []).map(arg => quoteArgument(toMiniMessage(arg)))
+		const name = component.fallback == undefined ? 'lang' : 'lang_or'
+		const fallback = component.fallback == undefined ? [] : [quoteArgument(component.fallback)]
+		return `<${[name, quoteArgument(component.translate), ...fallback, ...args].join(':')}>`
+	}
+	if (component.keybind != undefined) return `<key:${quoteArgument(component.keybind)}>`
+	if (component.selector != undefined) return `<selector:${quoteArgument(component.selector)}>`
+	if (component.score != undefined) {
+		return `<score:${quoteArgument(component.score.name)}:${quoteArgument(component.score.objective)}>`
+	}
+	return ''
+}
+
+/**
+ * Converts a parsed JSON text component to MiniMessage. Children inherit the style of their
+ * parent by nesting them inside the tags of the parent.
+ */
+export function toMiniMessage(element: TextElement): string {
+	if (Array.isArray(element)) {
+		// The first element of an array is the parent of the others
+		const [first, ...rest] = element
+		if (first == undefined) return ''
+		if (typeof first === 'string' || Array.isArray(first)) {
+			return toMiniMessage(first) + rest.map(toMiniMessage).join('')
+		}
+		return toMiniMessage({ ...first, extra: [...(first.extra ?? []), ...rest] })
+	}
+	if (typeof element === 'string') return escapeText(element)
+
+	const tags = getStyleTags(element)
+	const content = getContent(element) + (element.extra ?? []).map(toMiniMessage).join('')
+	return (
+		tags.map(({ open }) => open).join('') +
+		content +
+		tags
+			.map(({ close }) => close)
+			.reverse()
+			.join('')
+	)
+}
+
+/**
+ * Converts the JSON text of a text display to MiniMessage, parsing it the way the text display
+ * does for `minecraftVersion`. Text that can't be parsed is kept as it is.
+ */
+export function jsonTextToMiniMessage(rawText: string, minecraftVersion: string): string {
+	const trimmed = rawText.trim()
+	if (!trimmed) return ''
+	try {
+		const parser = new TextComponentParser({ minecraftVersion })
+		return toMiniMessage(parser.parse(trimmed))
+	} catch {
+		// keep raw text if it's not valid JSON text
+	}
+	return rawText
+}
@@ -0,0 +1,193 @@
+import { localize as translate } from '../../util/lang'
+import { Variant } from '../../variants'
+import { getAnimatableNodes } from '../animationRenderer'
+import {
+	DF_DEFAULT_VARIANT_NAME,
+	DF_INIT_PARAMETERS,
+	DF_ROOT_EVENT_SOURCE,
+	getDFInitFunctionPrefix,
+	getEventFunctionNames,
+	KEYFRAME_SEPARATOR_PATTERN,
+	toDFAnimationName,
+} from './dfdata'
+import { getDFModelId } from './dfexporter'
+import { ANIMATION_FUNCTION_INFIX, PART_SUFFIX_PATTERN } from './templateDecoder'
+
+// Function names are kept below this so the names of split parts fit too. A conservative estimate.
+export const DF_MAX_FUNCTION_NAME_LENGTH = 64
+
+// `%` starts a DF placeholder, `;` and `|` separate keyframe records and their fields
+const DF_ILLEGAL_NAME_CHARACTERS = /[%;|\p{Cc}]/u
+
+// Animations and variants are built in line variables named after them, which would replace the
+// dictionaries the init functions fill
+const DF_RESERVED_LIST_NAMES: ReadonlySet<string> = new Set(DF_INIT_PARAMETERS)
+
+export interface DFNameIssue {
+	/** What the name belongs to, like `animation "walk"` */
+	subject: string
+	message: string
+}
+
+export interface DFNameValidationInput {
+	modelId: string
+	functionNamespace: string
+	animationNames: string[]
+	variants: Array<{ name: string; isDefault: boolean }>
+	nodeNames: string[]
+	/** The function and variant keyframes of the animations */
+	keyframes: Array<{ animationName: string; functions?: string; executeCondition?: string }>
+}
+
+function describeCharacter(character: string): string {
+	return character === '%' || character === ';' || character === '|'
+		? character
+		: `U+${character.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`
+}
+
+function checkIllegalCharacters(name: string): string | undefined {
+	const match = DF_ILLEGAL_NAME_CHARACTERS.exec(name)
+	if (!match) return
+	return translate(
+		'misc.failed_to_export.df_names.illegal_character',
+		describeCharacter(match[0])
+	)
+}
+
+function checkKeyframeText(text: string): string | undefined {
+	const match = KEYFRAME_SEPARATOR_PATTERN.exec(text)
+	if (!match) return
+	return translate(
+		'misc.failed_to_export.df_names.keyframe_separator',
+		text,
+		describeCharacter(match[0])
+	)
+}
+
+function checkFunctionNameLength(functionName: string): string | undefined {
+	if (functionName.length <= DF_MAX_FUNCTION_NAME_LENGTH) return
+	return translate(
+		'misc.failed_to_export.df_names.too_long',
+		functionName,
+		String(functionName.length),
+		String(DF_MAX_FUNCTION_NAME_LENGTH)
+	)
+}
+
+/**
+ * Finds the names that can't be used in DF templates as they are. The exporter would otherwise
+ * rename them, or export templates that the base templates can't read back.
+ */
+export function validateDFNames(input: DFNameValidationInput): DFNameIssue[] {
+	const issues: DFNameIssue[] = []
+	const report = (subject: string, message: string | undefined) => {
+		if (message) issues.push({ subject, message })
+	}
+
+	const initFunctionPrefix = getDFInitFunctionPrefix(input.functionNamespace)
+	const modelSubject = translate('misc.failed_to_export.df_names.subject.model_id', input.modelId)
+	if (input.modelId.trim() === '') {
+		report(modelSubject, translate('misc.failed_to_export.df_names.empty'))
+	} else {
+		report(modelSubject, checkIllegalCharacters(input.modelId))
+		if (
+			input.modelId.includes(ANIMATION_FUNCTION_INFIX) ||
+			PART_SUFFIX_PATTERN.test(initFunctionPrefix + input.modelId)
+		) {
+			report(
+				modelSubject,
+				translate('misc.failed_to_export.df_names.function_suffix', input.modelId)
+			)
+		}
+		report(modelSubject, checkFunctionNameLength(initFunctionPrefix + input.modelId))
+	}
+
+	const usedAnimationNames = new Map<string, string>()
+	for (const animationName of input.animationNames) {
+		const name = toDFAnimationName(animationName)
+		const subject = translate('misc.failed_to_export.df_names.subject.animation', name)
+
+		const previous = usedAnimationNames.get(name)
+		if (previous != undefined) {
+			report(
+				subject,
+				translate(
+					'misc.failed_to_export.df_names.duplicate_animation',
+					animationName,
+					previous
+				)
+			)
+			continue
+		}
+		usedAnimationNames.set(name, animationName)
+
+		if (DF_RESERVED_LIST_NAMES.has(name)) {
+			report(subject, translate('misc.failed_to_export.df_names.reserved', name))
+		}
+		report(subject, checkIllegalCharacters(name))
+		const functionName = `${input.modelId}${ANIMATION_FUNCTION_INFIX}${name}`
+		if (name.includes(ANIMATION_FUNCTION_INFIX) || PART_SUFFIX_PATTERN.test(functionName)) {
+			report(subject, translate('misc.failed_to_export.df_names.function_suffix', name))
+		}
+		report(subject, checkFunctionNameLength(initFunctionPrefix + functionName))
+	}
+
+	for (const variant of input.variants) {
+		if (variant.isDefault) continue
+		const subject = translate('misc.failed_to_export.df_names.subject.variant', variant.name)
+		if (variant.name === DF_DEFAULT_VARIANT_NAME || DF_RESERVED_LIST_NAMES.has(variant.name)) {
+			report(subject, translate('misc.failed_to_export.df_names.reserved', variant.name))
+		}
+		report(subject, checkIllegalCharacters(variant.name))
+	}
+
+	for (const nodeName of input.nodeNames) {
+		const subject = translate('misc.failed_to_export.df_names.subject.node', nodeName)
+		// Events of the root use this as their source, like the events of locators use their name
+		if (nodeName === DF_ROOT_EVENT_SOURCE) {
+			report(subject, translate('misc.failed_to_export.df_names.reserved', nodeName))
+		}
+		report(subject, checkIllegalCharacters(nodeName))
+	}
+
+	// Keyframe texts are stored as fields of keyframe records, and can't be renamed
+	for (const keyframe of input.keyframes) {
+		const subject = translate(
+			'misc.failed_to_export.df_names.subject.animation',
+			toDFAnimationName(keyframe.animationName)
+		)
+		for (const functionName of getEventFunctionNames(keyframe.functions)) {
+			report(subject, checkKeyframeText(functionName))
+		}
+		if (keyframe.executeCondition) {
+			report(subject, checkKeyframeText(keyframe.executeCondition.trim()))
+		}
+	}
+
+	return issues
+}
+
+export function validateThisProjectsDFNames(): DFNameIssue[] {
+	return validateDFNames({
+		modelId: getDFModelId(),
+		functionNamespace: Project!.animated_java.df_function_namespace,
+		animationNames: Project!.animations.map(animation => animation.name),
+		variants: Variant.all.map(variant => ({
+			name: variant.name,
+			isDefault: variant.isDefault,
+		})),
+		nodeNames: getAnimatableNodes().map(node => node.name),
+		keyframes: Project!.animations.flatMap(animation =>
+			Object.values(animation.animators)
+				.flatMap(animator => animator.keyframes)
+				.filter(
+					keyframe => keyframe.channel === 'function' || keyframe.channel === 'variant'
+				)
+				.map(keyframe => ({
+					animationName: animation.name,
+					functions: keyframe.function,
+					executeCondition: keyframe.execute_condition,
+				}))
+		),
+	})
+}
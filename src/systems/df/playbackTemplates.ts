@@ -0,0 +1,446 @@
+import {
+	INSTANCE_POSE_ANIM,
+	INSTANCE_POSE_FRAME,
+	TWEEN_ANIM,
+	TWEEN_FRAME,
+	TWEEN_WEIGHT,
+} from './animationTemplates'
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	callFunction,
+	type DFArgumentValue,
+	debugMessage,
+	defineSourceTemplate,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	returnFromFunction,
+	setVariable,
+	text,
+	variable,
+} from './codeBlocks'
+
+// The playback state of an instance is stored as `rig.<model>.<id>.playback.*`,
+// so `rig.remove` purges it together with the rest of the instance.
+
+const PLAYBACK_ANIM = variable('rig.%var(model).%var(id).playback.anim', 'unsaved')
+const PLAYBACK_FRAME = variable('rig.%var(model).%var(id).playback.frame', 'unsaved')
+const PLAYBACK_INTERP = variable('rig.%var(model).%var(id).playback.interp', 'unsaved')
+const TWEEN_DURATION = variable('rig.%var(model).%var(id).tween.duration', 'unsaved')
+const TWEEN_ELAPSED = variable('rig.%var(model).%var(id).tween.elapsed', 'unsaved')
+
+const STOP_TWEEN = setVariable(
+	'PurgeVars',
+	[
+		text('rig.%var(model).%var(id).tween.anim'),
+		text('rig.%var(model).%var(id).tween.frame'),
+		text('rig.%var(model).%var(id).tween.weight'),
+		text('rig.%var(model).%var(id).tween.duration'),
+		text('rig.%var(model).%var(id).tween.elapsed'),
+	],
+	{ tags: { 'Match Requirement': 'Entire name', 'Ignore Case': 'False' } }
+)
+
+const REQUIRE_ANIMATION = [
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.%var(anim).length', 'unsaved')],
+		[
+			debugMessage(
+				'Model <white>%var(model) <reset>does not have animation <white>%var(anim)<reset>.',
+				'Error'
+			),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+]
+
+const PLAY = [
+	...REQUIRE_ANIMATION,
+	STOP_TWEEN,
+	setVariable('=', [PLAYBACK_ANIM, variable('anim')]),
+	setVariable('=', [PLAYBACK_FRAME, number(0)]),
+	setVariable('=', [PLAYBACK_INTERP, variable('interp')]),
+]
+
+// Mirrors the tween of the data pack: the new animation holds `frame` while the pose blends into
+// it, and only continues once the tween is over.
+const TWEEN = [
+	...REQUIRE_ANIMATION,
+	STOP_TWEEN,
+	setVariable('=', [PLAYBACK_ANIM, variable('anim')]),
+	setVariable('=', [PLAYBACK_FRAME, variable('frame')]),
+	setVariable('=', [PLAYBACK_INTERP, variable('interp')]),
+	...ifVariable(
+		'>',
+		[variable('duration'), number(0)],
+		[
+			// Without a previous pose there is nothing to blend from
+			...ifVariable(
+				'VarExists',
+				[INSTANCE_POSE_ANIM],
+				[
+					setVariable('=', [TWEEN_ANIM, INSTANCE_POSE_ANIM]),
+					setVariable('=', [TWEEN_FRAME, INSTANCE_POSE_FRAME]),
+					setVariable('=', [TWEEN_DURATION, variable('duration')]),
+					setVariable('=', [TWEEN_ELAPSED, number(0)]),
+				]
+			),
+		]
+	),
+]
+
+const STOP = [
+	setVariable(
+		'PurgeVars',
+		[
+			text('rig.%var(model).%var(id).playback.anim'),
+			text('rig.%var(model).%var(id).playback.frame'),
+			text('rig.%var(model).%var(id).playback.interp'),
+		],
+		{ tags: { 'Match Requirement': 'Entire name', 'Ignore Case': 'False' } }
+	),
+	STOP_TWEEN,
+]
+
+// Layered animations only move the nodes they modify, on top of the main animation. Every layer is
+// keyed by its animation, and its state is stored as `rig.<model>.<id>.layer.<anim>.*`.
+const LAYERS = variable('rig.%var(model).%var(id).layers', 'unsaved')
+const MODIFIED_NODES = variable('rig.%var(model).anim.%var(anim).@modified_nodes', 'unsaved')
+
+const PLAY_LAYER = [
+	...REQUIRE_ANIMATION,
+	...ifVariable(
+		'VarExists',
+		[MODIFIED_NODES],
+		[
+			debugMessage(
+				'Animation <white>%var(anim) <reset>of model <white>%var(model) <reset>was exported without its modified nodes. Export it again to play it as a layer.',
+				'Error'
+			),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	...ifVariable('VarExists', [LAYERS], [setVariable('CreateList', [LAYERS])], { not: true }),
+	...ifVariable(
+		'ListContains',
+		[LAYERS, variable('anim')],
+		[setVariable('AppendValue', [LAYERS, variable('anim')])],
+		{ not: true }
+	),
+	setVariable('=', [
+		variable('rig.%var(model).%var(id).layer.%var(anim).frame', 'unsaved'),
+		number(0),
+	]),
+	setVariable('=', [
+		variable('rig.%var(model).%var(id).layer.%var(anim).interp', 'unsaved'),
+		variable('interp'),
+	]),
+]
+
+const STOP_LAYER = [
+	...ifVariable(
+		'VarExists',
+		[LAYERS],
+		[setVariable('RemoveListValue', [LAYERS, variable('anim')])]
+	),
+	setVariable(
+		'PurgeVars',
+		[
+			text('rig.%var(model).%var(id).layer.%var(anim).frame'),
+			text('rig.%var(model).%var(id).layer.%var(anim).interp'),
+		],
+		{ tags: { 'Match Requirement': 'Entire name', 'Ignore Case': 'False' } }
+	),
+]
+
+// The main animation and every layer are a track, whose state is stored as
+// `rig.<model>.<id>.<track>.*`. Only the main animation can tween.
+const TRACK_FRAME = variable('rig.%var(model).%var(id).%var(track).frame', 'unsaved')
+const TRACK_INTERP = variable('rig.%var(model).%var(id).%var(track).interp', 'unsaved')
+
+const ANIMATE_TRACK = (frame: DFArgumentValue) =>
+	callFunction('rig.animate', [
+		variable('id'),
+		variable('model'),
+		variable('anim'),
+		frame,
+		TRACK_INTERP,
+		variable('layer'),
+	])
+
+const TICK = [
+	...ifVariable(
+		'VarExists',
+		[PLAYBACK_ANIM],
+		[
+			callFunction('rig.tickTrack', [
+				variable('id'),
+				variable('model'),
+				PLAYBACK_ANIM,
+				text('playback'),
+				number(0),
+			]),
+		]
+	),
+	...ifVariable(
+		'VarExists',
+		[LAYERS],
+		[
+			// Layers that end remove themselves from the list
+			setVariable('=', [variable('layers'), LAYERS]),
+			...repeat(
+				'ForEach',
+				[variable('layerAnim'), variable('layers')],
+				[
+					callFunction('rig.tickTrack', [
+						variable('id'),
+						variable('model'),
+						variable('layerAnim'),
+						text('layer.%var(layerAnim)'),
+						number(1),
+					]),
+				]
+			),
+		]
+	),
+]
+
+// Mirrors the loop modes of the data pack: `loop` waits `loop_delay` ticks on the last frame
+// before starting over, `hold` stays on the last frame and `once` resets to the first frame.
+const TICK_TRACK = [
+	setVariable('=', [variable('frame'), TRACK_FRAME]),
+	...ifVariable(
+		'=',
+		[variable('layer'), number(0)],
+		[
+			...ifVariable(
+				'VarExists',
+				[TWEEN_DURATION],
+				[
+					setVariable('=', [
+						TWEEN_ELAPSED,
+						number('%math(%var(rig.%var(model).%var(id).tween.elapsed)+1)'),
+					]),
+					setVariable('=', [
+						TWEEN_WEIGHT,
+						number(
+							'%math(%var(rig.%var(model).%var(id).tween.elapsed)/%var(rig.%var(model).%var(id).tween.duration))'
+						),
+					]),
+					ANIMATE_TRACK(variable('frame')),
+					...ifVariable('>=', [TWEEN_ELAPSED, TWEEN_DURATION], [STOP_TWEEN]),
+					returnFromFunction(),
+				]
+			),
+		]
+	),
+	...ifVariable('>=', [variable('frame'), number(0)], [ANIMATE_TRACK(variable('frame'))]),
+	setVariable('=', [variable('frame'), number('%math(%var(frame)+1)')]),
+	...ifVariable(
+		'<',
+		[variable('frame'), variable('rig.%var(model).anim.%var(anim).length', 'unsaved')],
+		[setVariable('=', [TRACK_FRAME, variable('frame')]), returnFromFunction()]
+	),
+	setVariable('=', [variable('mode'), text('loop')]),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.%var(anim).@loop_mode', 'unsaved')],
+		[
+			setVariable('=', [
+				variable('mode'),
+				variable('rig.%var(model).anim.%var(anim).@loop_mode', 'unsaved'),
+			]),
+		]
+	),
+	...ifVariable(
+		'=',
+		[variable('mode'), text('loop')],
+		[
+			setVariable('=', [variable('delay'), number(0)]),
+			...ifVariable(
+				'VarExists',
+				[variable('rig.%var(model).anim.%var(anim).@loop_delay', 'unsaved')],
+				[
+					setVariable('=', [
+						variable('delay'),
+						number('%var(rig.%var(model).anim.%var(anim).@loop_delay)'),
+					]),
+				]
+			),
+			setVariable('=', [TRACK_FRAME, number('%math(0-%var(delay))')]),
+			returnFromFunction(),
+		]
+	),
+	...ifVariable('=', [variable('mode'), text('once')], [ANIMATE_TRACK(number(0))]),
+	...ifVariable(
+		'=',
+		[variable('layer'), number(0)],
+		[callFunction('rig.stop', [variable('id'), variable('model')])],
+		{
+			orElse: [
+				callFunction('rig.stopLayer', [
+					variable('id'),
+					variable('model'),
+					variable('anim'),
+				]),
+			],
+		}
+	),
+]
+
+const IS_PLAYING = [
+	setVariable('=', [variable('result'), number(0)]),
+	...ifVariable(
+		'VarExists',
+		[PLAYBACK_ANIM],
+		[setVariable('=', [variable('result'), number(1)])]
+	),
+]
+
+export const DF_PLAYBACK_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'RigPlay',
+		displayName: 'Play',
+		functionName: 'rig.play',
+		category: 'helpers',
+		description:
+			'Starts playing the specified animation on the rig instance.\nThe animation advances every time rig.tick is called.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('interp', 'num', {
+				description: 'Interpolation duration',
+				optional: true,
+				defaultValue: number(1),
+			}),
+		],
+		blocks: PLAY,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigTween',
+		displayName: 'Tween',
+		functionName: 'rig.tween',
+		category: 'helpers',
+		description:
+			'Starts playing the specified animation on the rig instance, blending from the current pose into it.\nThe blend advances every time rig.tick is called, after which the animation plays from the specified frame.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('duration', 'num', { description: 'Tween duration in ticks' }),
+			parameter('frame', 'num', {
+				description: 'Frame to blend into',
+				optional: true,
+				defaultValue: number(0),
+			}),
+			parameter('interp', 'num', {
+				description: 'Interpolation duration',
+				optional: true,
+				defaultValue: number(1),
+			}),
+		],
+		blocks: TWEEN,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigStop',
+		displayName: 'Stop',
+		functionName: 'rig.stop',
+		category: 'helpers',
+		description:
+			'Stops the animation playing on the rig instance.\nThe rig keeps its current pose.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+		],
+		blocks: STOP,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigTick',
+		displayName: 'Tick',
+		functionName: 'rig.tick',
+		category: 'helpers',
+		description:
+			'Applies the current frame of the playing animation and its layers and advances them by one tick.\nRespects the loop mode and loop delay of the animation.\nCall this every tick for each playing instance.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+		],
+		blocks: TICK,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigTickTrack',
+		displayName: 'Tick Track',
+		functionName: 'rig.tickTrack',
+		category: 'helpers',
+		description:
+			'Applies the current frame of the main animation or of a layer and advances it by one tick.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('track', 'txt', { description: 'Track' }),
+			parameter('layer', 'num', { description: 'Layer' }),
+		],
+		blocks: TICK_TRACK,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigPlayLayer',
+		displayName: 'Play Layer',
+		functionName: 'rig.playLayer',
+		category: 'helpers',
+		description:
+			'Plays an animation on top of the main animation of the rig instance.\nOnly moves the nodes the animation modifies.\nLayers played later win on the nodes they share.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+			parameter('interp', 'num', {
+				description: 'Interpolation duration',
+				optional: true,
+				defaultValue: number(1),
+			}),
+		],
+		blocks: PLAY_LAYER,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigStopLayer',
+		displayName: 'Stop Layer',
+		functionName: 'rig.stopLayer',
+		category: 'helpers',
+		description:
+			'Stops an animation played with rig.playLayer.\nThe nodes of the layer keep their current pose until another animation moves them.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('anim', 'txt', { description: 'Animation ID' }),
+		],
+		blocks: STOP_LAYER,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigIsPlaying',
+		displayName: 'Is Playing',
+		functionName: 'rig.isPlaying',
+		category: 'helpers',
+		description: 'Returns 1 if an animation is playing on the rig instance, otherwise 0.',
+		usage: 2,
+		parameters: [
+			parameter('result', 'var', { description: 'Result' }),
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+		],
+		blocks: IS_PLAYING,
+	}),
+]
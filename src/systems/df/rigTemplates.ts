@@ -0,0 +1,764 @@
+import type { DFHelperTemplateDefinition } from './baseTemplates'
+import {
+	block,
+	callFunction,
+	debugMessage,
+	defineSourceTemplate,
+	gameValue,
+	ifVariable,
+	number,
+	parameter,
+	repeat,
+	returnFromFunction,
+	setVariable,
+	skipIteration,
+	styledText,
+	text,
+	variable,
+} from './codeBlocks'
+import type { CodeBlock } from './types'
+
+const INIT_RIG: CodeBlock[] = [
+	callFunction('rig.init.%var(id)', [
+		variable('rig.%var(id).nodes', 'unsaved'),
+		variable('animation'),
+		variable('variants'),
+	]),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('rig.%var(id).nodes', 'unsaved')],
+		[debugMessage('Model <white>%var(id) <reset>does not have any nodes.', 'Warning')]
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('animation')],
+		[debugMessage('Model <white>%var(id) <reset>does not have any animations.', 'Warning')]
+	),
+	setVariable('=', [variable('rig.%var(id).variants', 'unsaved'), variable('variants')]),
+	setVariable('CreateList', [variable('rig.%var(id).node_ids', 'unsaved')]),
+	setVariable('CreateList', [variable('rig.%var(id).locator_ids', 'unsaved')]),
+	...repeat(
+		'ForEach',
+		[variable('node'), variable('rig.%var(id).nodes', 'unsaved')],
+		[
+			setVariable('GetItemTag', [variable('node.id'), variable('node'), text('id')]),
+			setVariable('GetItemTag', [variable('node.type'), variable('node'), text('type')]),
+			...ifVariable(
+				'=',
+				[variable('node.type'), text('locator')],
+				[
+					setVariable('AppendValue', [
+						variable('rig.%var(id).locator_ids', 'unsaved'),
+						variable('node.id'),
+					]),
+				],
+				{
+					orElse: [
+						setVariable('AppendValue', [
+							variable('rig.%var(id).node_ids', 'unsaved'),
+							variable('node.id'),
+						]),
+					],
+				}
+			),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+	...repeat(
+		'ForEachEntry',
+		[variable('anim_name'), variable('anim_package'), variable('animation')],
+		[
+			setVariable('PopListValue', [
+				variable('rig.%var(id).anim.%var(anim_name).length', 'unsaved'),
+				variable('anim_package'),
+				number(1),
+			]),
+			setVariable('ListLength', [variable('length'), variable('anim_package')]),
+			...repeat(
+				'Multiple',
+				[variable('i'), number('%math(%var(length)/2)')],
+				[
+					setVariable('=', [
+						variable(
+							'rig.%var(id).anim.%var(anim_name).%index(anim_package,%math(%var(i)*2-1))',
+							'unsaved'
+						),
+						text('%index(anim_package,%math(%var(i)*2))'),
+					]),
+				]
+			),
+		]
+	),
+]
+
+const INIT_RIGS: CodeBlock[] = [
+	...repeat(
+		'ForEach',
+		[variable('id'), variable('ids')],
+		[callFunction('rig.init.rig', [variable('id')])],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+]
+
+const SPAWN: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not exist.', 'Error'),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not have any nodes.', 'Error'),
+			returnFromFunction(),
+		]
+	),
+	...ifVariable(
+		'=',
+		[variable('suppressDupeWarning'), number(0)],
+		[
+			...ifVariable(
+				'VarExists',
+				[variable('rig.%var(model).%var(id).entities', 'unsaved')],
+				[
+					debugMessage(
+						'A rig with the id <white>%var(id) <reset>already exists, spawning multiple rigs with the same id is not recommended.',
+						'Warning'
+					),
+				]
+			),
+		]
+	),
+	callFunction('rig.spawn.nodes', [
+		variable('entities'),
+		variable('id'),
+		variable('model'),
+		variable('loc'),
+	]),
+	// Nodes spawn in their rest pose, which the `default` animation replaces
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).anim.default.length', 'unsaved')],
+		[
+			callFunction('rig.animate', [
+				variable('id'),
+				variable('model'),
+				text('default'),
+				number(0),
+				number(0),
+			]),
+		]
+	),
+	block('select_obj', 'Reset', []),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('selection')],
+		[
+			block('select_obj', 'PlayerName', [variable('selection')]),
+			...ifVariable(
+				'=',
+				[gameValue('Selection Size'), number(0)],
+				[block('select_obj', 'EntityUUID', [variable('selection')])]
+			),
+		],
+		{ not: true }
+	),
+]
+
+// The rest pose of display nodes, stored as row-major matrix entries like the animations
+const REST_MATRIX = Array.from({ length: 16 }, (_, index) =>
+	number(`%entry(node.data,default_matrix_i${index})`)
+)
+
+const SPAWN_NODES: CodeBlock[] = [
+	...repeat(
+		'ForEach',
+		[variable('node'), variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			setVariable('GetAllItemTags', [variable('node.data'), variable('node')]),
+			...ifVariable(
+				'=',
+				[text('%entry(node.data,type)'), text('locator')],
+				[
+					setVariable('=', [
+						variable(
+							'rig.%var(model).%var(id).locators.%entry(node.data,id).origin',
+							'unsaved'
+						),
+						variable('loc'),
+					]),
+					setVariable('CreateList', [
+						variable(
+							'rig.%var(model).%var(id).locators.%entry(node.data,id).transform',
+							'unsaved'
+						),
+						number('%entry(node.data,default_px)'),
+						number('%entry(node.data,default_py)'),
+						number('%entry(node.data,default_pz)'),
+						number('%entry(node.data,default_rx)'),
+						number('%entry(node.data,default_ry)'),
+					]),
+					...ifVariable(
+						'=',
+						[text('%entry(node.data,entity)'), text('interaction')],
+						[
+							block('game_action', 'SpawnInteraction', [variable('loc')]),
+							block('select_obj', 'LastEntity', []),
+							block(
+								'entity_action',
+								'InteractionSize',
+								[
+									number('%entry(node.data,width)'),
+									number('%entry(node.data,height)'),
+								],
+								{ target: 'Selection' }
+							),
+							...ifVariable(
+								'=',
+								[text('%entry(node.data,response)'), text('true')],
+								[
+									block('entity_action', 'InteractionResponse', [], {
+										tags: { Responsive: 'True' },
+										target: 'Selection',
+									}),
+								]
+							),
+							block(
+								'entity_action',
+								'SetCustomTag',
+								[variable('model'), text('%entry(node.data,id)')],
+								{ target: 'Selection' }
+							),
+							block(
+								'entity_action',
+								'SetCustomTag',
+								[text('model_id'), variable('id')],
+								{ target: 'Selection' }
+							),
+							block(
+								'entity_action',
+								'SetCustomTag',
+								[text('model'), variable('model')],
+								{ target: 'Selection' }
+							),
+							setVariable('AppendValue', [
+								variable('entities'),
+								gameValue('UUID', 'Selection'),
+							]),
+							setVariable('SetDictValue', [
+								variable('rig.%var(model).%var(id).entities', 'unsaved'),
+								text('%entry(node.data,id)'),
+								gameValue('UUID', 'Selection'),
+							]),
+							setVariable('=', [
+								variable(
+									'rig.%var(model).%var(id).locators.%entry(node.data,id).entity',
+									'unsaved'
+								),
+								gameValue('UUID', 'Selection'),
+							]),
+							block('select_obj', 'Reset', []),
+						]
+					),
+					callFunction('rig.updateLocator', [
+						variable('id'),
+						variable('model'),
+						text('%entry(node.data,id)'),
+					]),
+				],
+				{
+					orElse: [
+						...ifVariable(
+							'=',
+							[text('%entry(node.data,type)'), text('block')],
+							[
+								block('game_action', 'SpawnBlockDisp', [
+									variable('loc'),
+									variable('node'),
+									text('%entry(node.data,block_states)'),
+								]),
+								block('select_obj', 'LastEntity', []),
+								callFunction('rig.convertDisplayData', [
+									variable('displayData'),
+									variable('node.data'),
+								]),
+								callFunction('rig.setBlockDisplayData', [variable('displayData')]),
+							],
+							{
+								orElse: [
+									...ifVariable(
+										'=',
+										[text('%entry(node.data,type)'), text('text')],
+										[
+											block(
+												'game_action',
+												'SpawnTextDisplay',
+												[
+													variable('loc'),
+													variable('text'),
+													styledText('%entry(node.data,text)'),
+												],
+												{
+													tags: {
+														'Inherit Styles': 'True',
+														'Text Value Merging': 'No spaces',
+													},
+												}
+											),
+											block('select_obj', 'LastEntity', []),
+											callFunction('rig.convertDisplayData', [
+												variable('displayData'),
+												variable('node.data'),
+											]),
+											callFunction('rig.setTextDisplayData', [
+												variable('displayData'),
+											]),
+										],
+										{
+											orElse: [
+												block('game_action', 'SpawnItemDisp', [
+													variable('loc'),
+													variable('node'),
+												]),
+												block('select_obj', 'LastEntity', []),
+												callFunction('rig.convertDisplayData', [
+													variable('displayData'),
+													variable('node.data'),
+												]),
+												callFunction('rig.setItemDisplayData', [
+													variable('displayData'),
+												]),
+											],
+										}
+									),
+								],
+							}
+						),
+						...ifVariable(
+							'DictHasKey',
+							[variable('node.data'), text('default_matrix_i0')],
+							[
+								setVariable('CreateList', [variable('restMatrix'), ...REST_MATRIX]),
+								block('entity_action', 'DisplayMatrix', [variable('restMatrix')], {
+									target: 'Selection',
+								}),
+							]
+						),
+						block('entity_action', 'Teleport', [variable('loc')], {
+							tags: { 'Keep Current Rotation': 'False' },
+							target: 'Selection',
+						}),
+						block(
+							'entity_action',
+							'SetCustomTag',
+							[variable('model'), text('%entry(node.data,id)')],
+							{ target: 'Selection' }
+						),
+						block('entity_action', 'SetCustomTag', [text('model_id'), variable('id')], {
+							target: 'Selection',
+						}),
+						block('entity_action', 'SetCustomTag', [text('model'), variable('model')], {
+							target: 'Selection',
+						}),
+						setVariable('AppendValue', [
+							variable('entities'),
+							gameValue('UUID', 'Selection'),
+						]),
+						setVariable('SetDictValue', [
+							variable('rig.%var(model).%var(id).entities', 'unsaved'),
+							text('%entry(node.data,id)'),
+							gameValue('UUID', 'Selection'),
+						]),
+						block('select_obj', 'Reset', []),
+					],
+				}
+			),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+]
+
+const REMOVE: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	setVariable('GetDictValues', [
+		variable('entities'),
+		variable('rig.%var(model).%var(id).entities', 'unsaved'),
+	]),
+	block('select_obj', 'EntityUUID', [variable('entities')]),
+	block('entity_action', 'Remove', [], { target: 'Selection' }),
+	...ifVariable(
+		'=',
+		[variable('strict'), number(0)],
+		[
+			setVariable('PurgeVars', [text('rig.%var(model).%var(id)')], {
+				tags: { 'Match Requirement': 'Any part of name', 'Ignore Case': 'False' },
+			}),
+		],
+		{
+			orElse: [
+				setVariable(
+					'PurgeVars',
+					[
+						text('rig.%var(model).%var(id).entities'),
+						text('rig.%var(model).%var(id).locators'),
+					],
+					{ tags: { 'Match Requirement': 'Any part of name', 'Ignore Case': 'False' } }
+				),
+			],
+		}
+	),
+	block('select_obj', 'Reset', []),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('selection')],
+		[
+			block('select_obj', 'PlayerName', [variable('selection')]),
+			...ifVariable(
+				'=',
+				[gameValue('Selection Size'), number(0)],
+				[block('select_obj', 'EntityUUID', [variable('selection')])]
+			),
+		],
+		{ not: true }
+	),
+]
+
+const SELECT_NODES: CodeBlock[] = [
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('nodeIds')],
+		[
+			setVariable('GetDictValues', [
+				variable('nodes'),
+				variable('rig.%var(model).%var(id).entities', 'unsaved'),
+			]),
+			block('select_obj', 'EntityUUID', [variable('nodes')]),
+			returnFromFunction(),
+		]
+	),
+	...ifVariable(
+		'ListSizeEquals',
+		[variable('nodeIds'), number(1)],
+		[
+			setVariable('GetDictValue', [
+				variable('node'),
+				variable('rig.%var(model).%var(id).entities', 'unsaved'),
+				text('%index(nodeIds,1)'),
+			]),
+			block('select_obj', 'EntityUUID', [variable('node')]),
+			returnFromFunction(),
+		]
+	),
+	setVariable('CreateList', [variable('nodes')]),
+	...repeat(
+		'ForEach',
+		[variable('nodeId'), variable('nodeIds')],
+		[
+			setVariable('AppendValue', [
+				variable('nodes'),
+				text('%entry(rig.%var(model).%var(id).entities,%var(nodeId))'),
+			]),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+	block('select_obj', 'EntityUUID', [variable('nodes')]),
+]
+
+const SET_VARIANT: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not exist.', 'Error'),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('rig.%var(model).nodes', 'unsaved')],
+		[
+			debugMessage('Model <white>%var(model) <reset>does not have any nodes.', 'Error'),
+			returnFromFunction(),
+		]
+	),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).%var(id).entities', 'unsaved')],
+		[
+			debugMessage(
+				'Instance <white>%var(id) <reset>of model <white>%var(model) <reset>does not exist.',
+				'Error'
+			),
+			returnFromFunction(),
+		],
+		{ not: true }
+	),
+	// Variants list the node items of the bones they change, with the item model of the variant
+	...ifVariable(
+		'!=',
+		[variable('variant'), text('default')],
+		[
+			setVariable('GetDictValue', [
+				variable('variantNodes'),
+				variable('rig.%var(model).variants', 'unsaved'),
+				variable('variant'),
+			]),
+			...ifVariable(
+				'ValueIsEmpty',
+				[variable('variantNodes')],
+				[
+					debugMessage(
+						'Model <white>%var(model) <reset>does not have variant <white>%var(variant) <reset>or variant has no assigned nodes.',
+						'Error'
+					),
+					returnFromFunction(),
+				]
+			),
+		],
+		{
+			orElse: [
+				setVariable('=', [
+					variable('variantNodes'),
+					variable('rig.%var(model).nodes', 'unsaved'),
+				]),
+			],
+		}
+	),
+	setVariable('CreateList', [variable('variantEntities')]),
+	...repeat(
+		'ForEach',
+		[variable('node'), variable('variantNodes')],
+		[
+			setVariable('GetItemTag', [variable('modelType'), variable('node'), text('type')]),
+			...ifVariable('!=', [variable('modelType'), text('model')], [skipIteration()]),
+			setVariable('GetItemTag', [variable('nodeId'), variable('node'), text('id')]),
+			setVariable('=', [variable('%var(nodeId)'), variable('node')]),
+			setVariable('GetDictValue', [
+				variable('entityUUID'),
+				variable('rig.%var(model).%var(id).entities', 'unsaved'),
+				variable('nodeId'),
+			]),
+			setVariable('AppendValue', [variable('variantEntities'), variable('entityUUID')]),
+		],
+		{ tags: { 'Allow List Changes': 'True' } }
+	),
+	block('select_obj', 'EntityUUID', [variable('variantEntities')]),
+	block('entity_action', 'GetCustomTag', [variable('%uuid node'), variable('model')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'IDisplayItem', [variable('%var(%uuid node)')], { target: 'Selection' }),
+	block('select_obj', 'Reset', []),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('selection')],
+		[
+			block('select_obj', 'PlayerName', [variable('selection')]),
+			...ifVariable(
+				'=',
+				[gameValue('Selection Size'), number(0)],
+				[block('select_obj', 'EntityUUID', [variable('selection')])]
+			),
+		],
+		{ not: true }
+	),
+]
+
+const MOVE: CodeBlock[] = [
+	setVariable('=', [variable('selection'), gameValue('Selection Target UUIDs')]),
+	setVariable('GetDictValues', [
+		variable('entities'),
+		variable('rig.%var(model).%var(id).entities', 'unsaved'),
+	]),
+	block('select_obj', 'EntityUUID', [variable('entities')]),
+	block('entity_action', 'DispTPDuration', [variable('teleportDuration')], {
+		target: 'Selection',
+	}),
+	block('entity_action', 'Teleport', [variable('loc')], {
+		tags: { 'Keep Current Rotation': 'False' },
+		target: 'Selection',
+	}),
+	...ifVariable(
+		'VarExists',
+		[variable('rig.%var(model).locator_ids', 'unsaved')],
+		[
+			...repeat(
+				'ForEach',
+				[variable('locator'), variable('rig.%var(model).locator_ids', 'unsaved')],
+				[
+					setVariable('=', [
+						variable(
+							'rig.%var(model).%var(id).locators.%var(locator).origin',
+							'unsaved'
+						),
+						variable('loc'),
+					]),
+					callFunction('rig.updateLocator', [
+						variable('id'),
+						variable('model'),
+						variable('locator'),
+					]),
+				],
+				{ tags: { 'Allow List Changes': 'True' } }
+			),
+		]
+	),
+	block('select_obj', 'Reset', []),
+	...ifVariable(
+		'ValueIsEmpty',
+		[variable('selection')],
+		[
+			block('select_obj', 'PlayerName', [variable('selection')]),
+			...ifVariable(
+				'=',
+				[gameValue('Selection Size'), number(0)],
+				[block('select_obj', 'EntityUUID', [variable('selection')])]
+			),
+		],
+		{ not: true }
+	),
+]
+
+export const DF_RIG_HELPER_DEFINITIONS: DFHelperTemplateDefinition[] = [
+	defineSourceTemplate({
+		templateName: 'RigInitRig',
+		displayName: 'Init Rig',
+		functionName: 'rig.init.rig',
+		category: 'core',
+		description: 'Initializes the specified rig and its animations.',
+		usage: 1,
+		parameters: [parameter('id', 'txt', { description: 'ID' })],
+		blocks: INIT_RIG,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigInitRigs',
+		displayName: 'Init Rigs',
+		functionName: 'rig.init.rigs',
+		category: 'helpers',
+		description: 'Initializes all specified rigs and their animations.',
+		usage: 1,
+		glint: true,
+		parameters: [parameter('ids', 'txt', { description: 'IDs', plural: true })],
+		blocks: INIT_RIGS,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSpawn',
+		displayName: 'Spawn',
+		functionName: 'rig.spawn',
+		category: 'core',
+		description:
+			'Spawns an instance of the rig at the specified location.\nAutomatically applies animation "default" at tick 0 after spawning.\nResets the selection and restores your previous selection.',
+		usage: 1,
+		parameters: [
+			parameter('entities', 'var', { description: 'Entities' }),
+			parameter('id', 'txt', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('loc', 'loc', { description: 'Spawn location' }),
+			parameter('suppressDupeWarning', 'num', {
+				description: 'Suppress Duplicate Warning',
+				optional: true,
+				defaultValue: number(0),
+				note: '<red>0 <gray>= <white>False <dark_aqua>Else <gray>= <white>True',
+			}),
+		],
+		blocks: SPAWN,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSpawnNodes',
+		displayName: 'Spawn Nodes',
+		functionName: 'rig.spawn.nodes',
+		category: 'core',
+		description: 'Spawns the nodes for a rig instance.',
+		usage: 3,
+		hidden: true,
+		parameters: [
+			parameter('entities', 'var', { description: 'Entities' }),
+			parameter('id', 'txt', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('loc', 'loc', { description: 'Spawn location' }),
+		],
+		blocks: SPAWN_NODES,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigRemove',
+		displayName: 'Remove',
+		functionName: 'rig.remove',
+		category: 'core',
+		description:
+			'Removes the rig instance.\nResets the selection and restores your previous selection.',
+		usage: 1,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('strict', 'num', {
+				description: 'Strict Var Purge',
+				optional: true,
+				defaultValue: number(0),
+				note: '<red>0 <gray>= <white>False <dark_aqua>Else <gray>= <white>True',
+			}),
+		],
+		blocks: REMOVE,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSelectNodes',
+		displayName: 'Select Nodes',
+		functionName: 'rig.selectNodes',
+		category: 'helpers',
+		description:
+			'Selects the specified rig nodes.\nIf no node IDs are provided, selects all nodes in the rig.',
+		usage: 2,
+		glint: true,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('nodeIds', 'txt', { description: 'Node IDs', optional: true, plural: true }),
+		],
+		blocks: SELECT_NODES,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigSetVariant',
+		displayName: 'Set Variant',
+		functionName: 'rig.setVariant',
+		category: 'core',
+		description:
+			'Applies the specified variant to the rig instance.\nResets the selection and restores your previous selection.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID' }),
+			parameter('variant', 'txt', {
+				description: 'Variant',
+				optional: true,
+				defaultValue: text('default'),
+			}),
+		],
+		blocks: SET_VARIANT,
+	}),
+	defineSourceTemplate({
+		templateName: 'RigMove',
+		displayName: 'Move',
+		functionName: 'rig.move',
+		category: 'core',
+		description:
+			'Moves the rig instance to the specified location.\nResets the selection and restores your previous selection.',
+		usage: 2,
+		parameters: [
+			parameter('id', 'any', { description: 'Entity ID' }),
+			parameter('model', 'txt', { description: 'Model ID', optional: true }),
+			parameter('loc', 'loc', { description: 'Location' }),
+			parameter('teleportDuration', 'num', {
+				description: 'Teleport Duration',
+				optional: true,
+				defaultValue: number(0),
+			}),
+		],
+		blocks: MOVE,
+	}),
+]
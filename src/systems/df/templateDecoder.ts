@@ -0,0 +1,417 @@
+import { DFCompressionError, gZipToText } from './compression'
+import {
+	ANIMATION_DATA_PREFIX,
+	DF_ANIMATION_PROPERTY_PREFIX,
+	DF_DEFAULT_FUNCTION_NAMESPACE,
+	DF_NODE_NAME_SEPARATOR,
+	decodeAnimationFrames,
+	decodeKeyframeRecords,
+	decodeLegacyAnimationFrames,
+	getDFInitFunctionPrefix,
+	type KeyframeRecord,
+} from './dfdata'
+import { DFTemplateDecodeError } from './errors'
+import type { CodeBlock, CodeBlockArgument, CodeTemplate } from './types'
+
+export interface DecodedDFTemplate {
+	/** The `hypercube:codetemplatedata` payload without its `code` */
+	payload: Record<string, unknown>
+	template: CodeTemplate
+	/** The name of the function or process the template starts with */
+	functionName?: string
+}
+
+export interface DecodedDFNode {
+	name: string
+	/** The `hypercube:type` of the node item, for example `model` or `locator` */
+	type: string
+	itemId?: string
+	/** The remaining `hypercube:*` tags of the node item */
+	tags: Record<string, string>
+}
+
+export interface DecodedDFAnimation {
+	name: string
+	length: number
+	loopMode?: string
+	loopDelay?: number
+	/** Missing in animations exported before layered animations */
+	modifiedNodes?: string[]
+	/** Decoded frames by node name, one list of channel values per frame */
+	nodes: Record<string, number[][]>
+	keyframes: Record<string, KeyframeRecord[]>
+}
+
+export interface DecodedDFRig {
+	modelName: string
+	nodes: DecodedDFNode[]
+	/** The animations `rig.init.<model>` calls, in order */
+	animationNames: string[]
+	animations: Record<string, DecodedDFAnimation>
+	/** The bones every variant changes, as they are displayed with the variant */
+	variants: Record<string, DecodedDFNode[]>
+	/** Animations the rig calls, but whose templates weren't decoded */
+	missingAnimations: string[]
+}
+
+// Locators store five values per frame in legacy animation data, every other node a matrix
+const LEGACY_LOCATOR_VALUE_COUNT = 5
+const LEGACY_MATRIX_VALUE_COUNT = 16
+
+const CODE_TEMPLATE_DATA_PATTERN =
+	/"?hypercube:codetemplatedata"?\s*:\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/g
+const BUKKIT_VALUE_PATTERN = /"hypercube:((?:[^"\\]|\\.)*)"\s*:\s*"((?:[^"\\]|\\.)*)"/g
+const ITEM_ID_PATTERN = /\bid\s*:\s*"((?:[^"\\]|\\.)*)"\s*\}\s*$/
+// Split functions are named `<function>.part2`, ... and animation init functions
+// `<model>.anim.<animation>`
+export const PART_SUFFIX_PATTERN = /\.part(\d+)$/
+export const ANIMATION_FUNCTION_INFIX = '.anim.'
+
+function unescapeString(literal: string): string {
+	if (literal.startsWith('"')) {
+		try {
+			return JSON.parse(literal) as string
+		} catch {
+			// SNBT strings only escape quotes and backslashes
+		}
+	}
+	return literal.slice(1, -1).replace(/\\(.)/g, '$1')
+}
+
+function parseJson(value: string, description: string): unknown {
+	try {
+		return JSON.parse(value)
+	} catch (error) {
+		throw new DFTemplateDecodeError(`${description} is not valid JSON.`, error)
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Finds the `hypercube:codetemplatedata` payloads in the input, which can be a payload, one or
+ * more give commands, or a template file saved by `saveDFTemplateFile`.
+ */
+export function extractCodeTemplatePayloads(input: string): Array<Record<string, unknown>> {
+	const trimmed = input.trim()
+
+	if (trimmed.startsWith('{') && !/^\{\s*components\s*:/.test(trimmed)) {
+		let parsed = parseJson(trimmed, 'The template')
+		if (typeof parsed === 'string') parsed = parseJson(parsed, 'The template')
+		if (isRecord(parsed) && Array.isArray(parsed.templates)) {
+			return parsed.templates.map((entry: unknown) => {
+				if (isRecord(entry) && isRecord(entry.codetemplatedata)) {
+					return entry.codetemplatedata
+				}
+				throw new DFTemplateDecodeError(
+					'Every template of a template file needs a `codetemplatedata` payload.'
+				)
+			})
+		}
+		if (isRecord(parsed) && typeof parsed.code === 'string') return [parsed]
+	}
+
+	const payloads = [...trimmed.matchAll(CODE_TEMPLATE_DATA_PATTERN)].map(match => {
+		const payload = parseJson(unescapeString(match[1]), 'The `hypercube:codetemplatedata`')
+		if (!isRecord(payload)) {
+			throw new DFTemplateDecodeError('The `hypercube:codetemplatedata` is not an object.')
+		}
+		return payload
+	})
+	if (payloads.length === 0) {
+		throw new DFTemplateDecodeError(
+			'No template found. Expected a `hypercube:codetemplatedata` payload, a give command or a template file.'
+		)
+	}
+	return payloads
+}
+
+export async function decodeCodeTemplatePayload(
+	payload: Record<string, unknown>
+): Promise<DecodedDFTemplate> {
+	const { code, ...rest } = payload
+	if (typeof code !== 'string' || code.length === 0) {
+		throw new DFTemplateDecodeError('The template payload has no `code`.')
+	}
+
+	let text: string
+	try {
+		text = await gZipToText(code)
+	} catch (error) {
+		if (!(error instanceof DFCompressionError)) throw error
+		throw new DFTemplateDecodeError('The template code is not valid gzip/base64.', error)
+	}
+	const template = parseJson(text, 'The template code')
+	if (!isRecord(template) || !Array.isArray(template.blocks)) {
+		throw new DFTemplateDecodeError('The template code has no `blocks`.')
+	}
+
+	const firstBlock = template.blocks[0] as CodeBlock | undefined
+	return {
+		payload: rest,
+		template: template as unknown as CodeTemplate,
+		functionName:
+			(firstBlock?.block === 'func' || firstBlock?.block === 'process') &&
+			typeof firstBlock.data === 'string'
+				? firstBlock.data
+				: undefined,
+	}
+}
+
+export async function decodeDFTemplates(input: string): Promise<DecodedDFTemplate[]> {
+	const templates: DecodedDFTemplate[] = []
+	for (const payload of extractCodeTemplatePayloads(input)) {
+		templates.push(await decodeCodeTemplatePayload(payload))
+	}
+	return templates
+}
+
+type SimulatedValue = string | SimulatedValue[] | Map<string, SimulatedValue>
+
+interface RigState {
+	nodes: SimulatedValue
+	animations: Map<string, SimulatedValue>
+	variants: Map<string, SimulatedValue>
+	animationNames: string[]
+}
+
+function getArgumentValue(
+	argument: CodeBlockArgument,
+	scope: Map<string, SimulatedValue>
+): SimulatedValue | undefined {
+	const { id, data } = argument.item as { id: string; data?: Record<string, unknown> }
+	switch (id) {
+		case 'txt':
+		case 'num':
+		case 'comp':
+			return String(data?.name ?? '')
+		case 'item':
+			return String(data?.item ?? '')
+		case 'var':
+			return scope.get(String(data?.name))
+	}
+}
+
+/**
+ * Runs the `set_var` blocks that build the `nodes`, `animations` and `variants` of an init
+ * function. Anything else, like calls to the other parts, is skipped.
+ */
+function simulateInitBlocks(
+	blocks: CodeBlock[],
+	scope: Map<string, SimulatedValue>,
+	onCall: (functionName: string) => void
+) {
+	for (const block of blocks) {
+		if (block.block === 'call_func' && typeof block.data === 'string') {
+			onCall(block.data)
+			continue
+		}
+		if (block.block !== 'set_var') continue
+
+		const items = [...(block.args?.items ?? [])].sort((a, b) => a.slot - b.slot)
+		const target = items[0]?.item as { id: string; data?: { name?: string } } | undefined
+		if (target?.id !== 'var' || !target.data?.name) continue
+		const name = target.data.name
+		const values = items.slice(1).map(item => getArgumentValue(item, scope))
+		const listValues = values.filter((value): value is SimulatedValue => value !== undefined)
+
+		switch (block.action) {
+			case 'CreateList':
+				scope.set(name, listValues)
+				break
+			case 'AppendValue': {
+				const list = scope.get(name)
+				if (Array.isArray(list)) list.push(...listValues)
+				else scope.set(name, listValues)
+				break
+			}
+			case 'SetDictValue': {
+				const dictionary = scope.get(name)
+				if (
+					dictionary instanceof Map &&
+					typeof values[0] === 'string' &&
+					values[1] !== undefined
+				) {
+					dictionary.set(values[0], values[1])
+				}
+				break
+			}
+			case 'GetDictValue': {
+				const dictionary = values[0]
+				if (dictionary instanceof Map && typeof values[1] === 'string') {
+					const value = dictionary.get(values[1])
+					if (value !== undefined) scope.set(name, value)
+				}
+				break
+			}
+		}
+	}
+}
+
+/**
+ * Returns the `hypercube:*` values of an item, without the `hypercube:` prefix.
+ */
+export function parseBukkitValues(itemSnbt: string): Record<string, string> {
+	const values: Record<string, string> = {}
+	for (const match of itemSnbt.matchAll(BUKKIT_VALUE_PATTERN)) {
+		values[unescapeString(`"${match[1]}"`)] = unescapeString(`"${match[2]}"`)
+	}
+	return values
+}
+
+function parseNodeItem(itemSnbt: string): DecodedDFNode {
+	const { id = '', type = '', ...rest } = parseBukkitValues(itemSnbt)
+	const itemId = ITEM_ID_PATTERN.exec(itemSnbt)?.[1]
+	return { name: id, type, itemId, tags: rest }
+}
+
+async function decodeNodeAnimationData(value: string, legacyValueCount: number) {
+	try {
+		if (value.startsWith(ANIMATION_DATA_PREFIX)) {
+			return decodeAnimationFrames(
+				await gZipToText(value.slice(ANIMATION_DATA_PREFIX.length))
+			)
+		}
+		return decodeLegacyAnimationFrames(await gZipToText(value), legacyValueCount)
+	} catch (error) {
+		if (error instanceof DFTemplateDecodeError) throw error
+		throw new DFTemplateDecodeError('Failed to decode animation data.', error)
+	}
+}
+
+async function decodeAnimation(
+	name: string,
+	entries: SimulatedValue,
+	nodes: DecodedDFNode[]
+): Promise<DecodedDFAnimation> {
+	if (!Array.isArray(entries) || typeof entries[0] !== 'string') {
+		throw new DFTemplateDecodeError(`Animation "${name}" has no data.`)
+	}
+
+	const animation: DecodedDFAnimation = {
+		name,
+		length: Number(entries[0]),
+		nodes: {},
+		keyframes: {},
+	}
+	for (let i = 1; i + 1 < entries.length; i += 2) {
+		const key = entries[i]
+		const value = entries[i + 1]
+		if (typeof key !== 'string' || typeof value !== 'string') continue
+
+		if (!key.startsWith(DF_ANIMATION_PROPERTY_PREFIX)) {
+			const isLocator = nodes.find(node => node.name === key)?.type === 'locator'
+			try {
+				animation.nodes[key] = await decodeNodeAnimationData(
+					value,
+					isLocator ? LEGACY_LOCATOR_VALUE_COUNT : LEGACY_MATRIX_VALUE_COUNT
+				)
+			} catch (error) {
+				throw new DFTemplateDecodeError(
+					`Failed to decode node "${key}" of animation "${name}": ${(error as Error).message}`,
+					error
+				)
+			}
+			continue
+		}
+
+		const property = key.slice(DF_ANIMATION_PROPERTY_PREFIX.length)
+		if (property === 'loop_mode') animation.loopMode = value
+		else if (property === 'loop_delay') animation.loopDelay = Number(value)
+		else if (property === 'modified_nodes') {
+			animation.modifiedNodes = value === '' ? [] : value.split(DF_NODE_NAME_SEPARATOR)
+		} else animation.keyframes[property] = decodeKeyframeRecords(value)
+	}
+	return animation
+}
+
+function getPartIndex(functionName: string) {
+	return Number(PART_SUFFIX_PATTERN.exec(functionName)?.[1] ?? 1)
+}
+
+/**
+ * Reconstructs the rigs of decoded `<namespace>.init.<model>` and
+ * `<namespace>.init.<model>.anim.<animation>` templates. Templates of other functions are ignored.
+ */
+export async function reconstructDFRigs(
+	templates: DecodedDFTemplate[],
+	namespace = DF_DEFAULT_FUNCTION_NAMESPACE
+): Promise<DecodedDFRig[]> {
+	const initFunctionPrefix = getDFInitFunctionPrefix(namespace)
+	const rigStates = new Map<string, RigState>()
+	const getRigState = (modelName: string) => {
+		let state = rigStates.get(modelName)
+		if (!state) {
+			state = { nodes: [], animations: new Map(), variants: new Map(), animationNames: [] }
+			rigStates.set(modelName, state)
+		}
+		return state
+	}
+
+	// Parts of a split function run in order and share their line variables
+	const functions = new Map<string, DecodedDFTemplate[]>()
+	for (const template of templates) {
+		if (!template.functionName?.startsWith(initFunctionPrefix)) continue
+		const baseName = template.functionName.replace(PART_SUFFIX_PATTERN, '')
+		functions.set(baseName, [...(functions.get(baseName) ?? []), template])
+	}
+
+	for (const [functionName, parts] of functions) {
+		const name = functionName.slice(initFunctionPrefix.length)
+		const animationIndex = name.lastIndexOf(ANIMATION_FUNCTION_INFIX)
+		const modelName = animationIndex === -1 ? name : name.slice(0, animationIndex)
+		const state = getRigState(modelName)
+
+		const scope = new Map<string, SimulatedValue>([
+			['nodes', state.nodes],
+			['animations', state.animations],
+			['variants', state.variants],
+		])
+		const animationFunctionPrefix = `${functionName}${ANIMATION_FUNCTION_INFIX}`
+		parts.sort((a, b) => getPartIndex(a.functionName!) - getPartIndex(b.functionName!))
+		for (const part of parts) {
+			simulateInitBlocks(part.template.blocks, scope, calledFunction => {
+				if (calledFunction.startsWith(animationFunctionPrefix)) {
+					state.animationNames.push(calledFunction.slice(animationFunctionPrefix.length))
+				}
+			})
+		}
+		state.nodes = scope.get('nodes') ?? state.nodes
+	}
+
+	const rigs: DecodedDFRig[] = []
+	for (const [modelName, state] of rigStates) {
+		const nodes = (Array.isArray(state.nodes) ? state.nodes : [])
+			.filter((item): item is string => typeof item === 'string')
+			.map(parseNodeItem)
+
+		const animations: Record<string, DecodedDFAnimation> = {}
+		for (const [animationName, entries] of state.animations) {
+			animations[animationName] = await decodeAnimation(animationName, entries, nodes)
+		}
+
+		const variants: Record<string, DecodedDFNode[]> = {}
+		for (const [variantName, entries] of state.variants) {
+			variants[variantName] = (Array.isArray(entries) ? entries : [])
+				.filter((entry): entry is string => typeof entry === 'string')
+				// Rigs exported before rig format 4 only list the names of the bones
+				.map(entry =>
+					entry.startsWith('{')
+						? parseNodeItem(entry)
+						: { name: entry, type: 'model', tags: {} }
+				)
+		}
+
+		rigs.push({
+			modelName,
+			nodes,
+			animationNames: state.animationNames,
+			animations,
+			variants,
+			missingAnimations: state.animationNames.filter(name => !(name in animations)),
+		})
+	}
+	return rigs
+}
@@ -0,0 +1,78 @@
+import { buildCodeClientGiveCommand, buildCodeTemplatePayload } from './codeclient'
+import type { CodeClientTemplateItem, CodeTemplate } from './types'
+
+export const DF_TEMPLATE_FILE_VERSION = 1
+
+export interface DFTemplateFileEntry {
+	templateName: string
+	displayName: string
+	/** The raw template, if it was generated instead of loaded from a `codetemplateData` payload */
+	template?: CodeTemplate
+	/** The `hypercube:codetemplatedata` payload, its `code` is the gzipped and base64 encoded template */
+	codetemplatedata: Record<string, unknown>
+	giveCommand: string
+}
+
+export interface DFTemplateFile {
+	version: number
+	templates: DFTemplateFileEntry[]
+}
+
+export async function buildDFTemplateFile(
+	templates: CodeClientTemplateItem[],
+	toBase64GZip: (input: string) => Promise<string>
+): Promise<DFTemplateFile> {
+	const entries: DFTemplateFileEntry[] = []
+	for (const item of templates) {
+		const payload = await buildCodeTemplatePayload(item, toBase64GZip)
+		entries.push({
+			templateName: item.templateName,
+			displayName: item.displayName ?? item.templateName,
+			...(item.template ? { template: item.template } : {}),
+			codetemplatedata: JSON.parse(payload),
+			giveCommand: '/' + (await buildCodeClientGiveCommand(item, toBase64GZip)),
+		})
+	}
+
+	return { version: DF_TEMPLATE_FILE_VERSION, templates: entries }
+}
+
+/**
+ * Opens a save dialog for the template file. `onSaved` is only called if the user picked a path.
+ */
+export function saveDFTemplateFile(
+	fileName: string,
+	file: DFTemplateFile,
+	onSaved?: (path: string) => void
+) {
+	Blockbench.export(
+		{
+			resource_id: 'animated_java_df_template.export',
+			name: fileName + '.json',
+			startpath: Project?.save_path,
+			type: 'json',
+			extensions: ['json'],
+			content: JSON.stringify(file, null, '\t'),
+		},
+		onSaved
+	)
+}
+
+/**
+ * Opens a file dialog for template files, or text files with `codetemplatedata` payloads or give
+ * commands. `onLoaded` is called with the content of every picked file.
+ */
+export function loadDFTemplateFiles(onLoaded: (contents: string[]) => void) {
+	Blockbench.import(
+		{
+			resource_id: 'animated_java_df_template.import',
+			type: 'DiamondFire Template',
+			extensions: ['json', 'txt'],
+			readtype: 'text',
+			multiple: true,
+		},
+		files => {
+			onLoaded(files.map(file => String(file.content ?? '')))
+		}
+	)
+}
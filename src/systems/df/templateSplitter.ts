@@ -0,0 +1,131 @@
+import { DFExportError } from './errors'
+import type { CodeBlock, CodeTemplate } from './types'
+
+// DiamondFire rejects templates that are too large, and a code line can't be longer than the
+// codespace of the plot. Both limits are conservative estimates.
+export const DF_TEMPLATE_MAX_COMPRESSED_SIZE = 60_000
+export const DF_TEMPLATE_MAX_CODE_BLOCKS = 140
+
+/**
+ * A group of blocks that is never split across templates.
+ */
+export interface DFTemplateUnit {
+	blocks: CodeBlock[]
+	/**
+	 * The line variable list this unit builds, if it is not stored in its dictionary yet after this
+	 * unit. When the template is split after this unit, the list is stored before the split and
+	 * loaded again at the start of the next template.
+	 */
+	pendingList?: { name: string; dictionary: string }
+	/** Describes the data of the unit in errors, for example `Animation "walk" (arm, leg)` */
+	label?: string
+}
+
+export interface DFTemplatePartOptions {
+	/** Creates the function block of a part, `index` starts at 1 */
+	createFunctionBlock: (index: number) => CodeBlock
+	/** Creates the block at the end of a part that calls the next part */
+	createCallBlock: (nextIndex: number) => CodeBlock
+	/** Returns the size of the blocks once compressed */
+	estimateCompressedSize: (blocks: CodeBlock[]) => Promise<number>
+	maxCompressedSize?: number
+	maxCodeBlocks?: number
+}
+
+function textArgument(name: string) {
+	return { id: 'txt', data: { name } }
+}
+
+function variableArgument(name: string) {
+	return { id: 'var', data: { name, scope: 'line' } }
+}
+
+function createStoreListBlock(list: NonNullable<DFTemplateUnit['pendingList']>): CodeBlock {
+	return {
+		id: 'block',
+		block: 'set_var',
+		action: 'SetDictValue',
+		args: {
+			items: [
+				{ item: variableArgument(list.dictionary), slot: 0 },
+				{ item: textArgument(list.name), slot: 1 },
+				{ item: variableArgument(list.name), slot: 2 },
+			],
+		},
+	}
+}
+
+function createLoadListBlock(list: NonNullable<DFTemplateUnit['pendingList']>): CodeBlock {
+	return {
+		id: 'block',
+		block: 'set_var',
+		action: 'GetDictValue',
+		args: {
+			items: [
+				{ item: variableArgument(list.name), slot: 0 },
+				{ item: variableArgument(list.dictionary), slot: 1 },
+				{ item: textArgument(list.name), slot: 2 },
+			],
+		},
+	}
+}
+
+/**
+ * Splits the units into as many chained templates as needed to stay within the size limits.
+ * Every template but the last one ends by calling the next one.
+ * Throws a {@link DFExportError} if a unit doesn't fit in a template on its own.
+ */
+export async function splitTemplateUnits(
+	units: DFTemplateUnit[],
+	options: DFTemplatePartOptions
+): Promise<CodeTemplate[]> {
+	const maxCompressedSize = options.maxCompressedSize ?? DF_TEMPLATE_MAX_COMPRESSED_SIZE
+	const maxCodeBlocks = options.maxCodeBlocks ?? DF_TEMPLATE_MAX_CODE_BLOCKS
+
+	// Every part may need a function block, a list to load, a list to store and a call block.
+	const overhead = [
+		options.createFunctionBlock(2),
+		options.createCallBlock(2),
+		createLoadListBlock({ name: 'list', dictionary: 'dictionary' }),
+		createStoreListBlock({ name: 'list', dictionary: 'dictionary' }),
+	]
+	const overheadSize = await options.estimateCompressedSize(overhead)
+
+	const templates: CodeTemplate[] = []
+	let blocks: CodeBlock[] = [options.createFunctionBlock(1)]
+	let size = overheadSize
+	let isEmpty = true
+	let pendingList: DFTemplateUnit['pendingList']
+
+	for (const unit of units) {
+		const unitSize = await options.estimateCompressedSize(unit.blocks)
+		const fits =
+			size + unitSize <= maxCompressedSize &&
+			blocks.length + unit.blocks.length + overhead.length - 1 <= maxCodeBlocks
+
+		if (!fits && !isEmpty) {
+			if (pendingList) blocks.push(createStoreListBlock(pendingList))
+			blocks.push(options.createCallBlock(templates.length + 2))
+			templates.push({ blocks })
+
+			blocks = [options.createFunctionBlock(templates.length + 1)]
+			if (pendingList) blocks.push(createLoadListBlock(pendingList))
+			size = overheadSize
+		}
+
+		if (size + unitSize > maxCompressedSize) {
+			throw new DFExportError(
+				`${unit.label ?? 'A part of the template'} is too large for a DiamondFire template ` +
+					`(${unitSize} bytes compressed, the limit is ${maxCompressedSize - overheadSize} bytes).`
+			)
+		}
+
+		blocks.push(...unit.blocks)
+		size += unitSize
+		isEmpty = false
+		pendingList = unit.pendingList
+	}
+
+	templates.push({ blocks })
+	return templates
+}
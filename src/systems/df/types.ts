@@ -1,14 +1,16 @@
+export interface CodeBlockArgument {
+	item: {
+		id: string
+		data: any
+	}
+	slot: number
+}
+
 export interface CodeBlock {
 	id: string
 	block?: string
 	args?: {
-		items?: Array<{
-			item: {
-				id: string
-				data: any
-			}
-			slot: number
-		}>
+		items?: CodeBlockArgument[]
 	}
 	data?: string
 	action?: string
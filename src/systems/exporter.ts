@@ -5,7 +5,10 @@ import {
 } from '../dialogs/exportProgress/exportProgress'
 import { openUnexpectedErrorDialog } from '../dialogs/unexpectedError/unexpectedError'
 import { projectTargetVersionIsAtLeast, saveBlueprint } from '../formats/blueprint'
-import { validateThisProjectsBlueprintSettings } from '../formats/blueprint/settings'
+import {
+	validateDFFunctionNamespace,
+	validateThisProjectsBlueprintSettings,
+} from '../formats/blueprint/settings'
 import { resolvePath } from '../util/fileUtil'
 import { localize as translate } from '../util/lang'
 import { isResourcePackPath, parseResourceLocation } from '../util/minecraftUtil'
@@ -14,13 +17,28 @@ import { Stopwatch } from '../util/stopwatch'
 import { Variant } from '../variants'
 import { hashAnimations, renderProjectAnimations } from './animationRenderer'
 import compileDataPack from './datapackCompiler'
+import { buildDFBaseTemplateReport, type DFBaseTemplateReport } from './df/baseTemplateReport'
 import {
 	type DFBaseTemplateCategory,
 	getDFBaseTemplateCount,
 	sendDFBaseTemplateToCodeClient,
 	sendDFBaseTemplatesToCodeClient,
 } from './df/baseTemplates'
-import { DFExportError, exportJSONDF } from './df/dfexporter'
+import { DF_RIG_FORMAT_VERSION } from './df/baseTemplateVersions'
+import type { CodeClientDelivery } from './df/codeclient'
+import { CODECLIENT_SESSION } from './df/codeclientSession'
+import { DF_DEFAULT_FUNCTION_NAMESPACE, getDFInitFunctionPrefix } from './df/dfdata'
+import { DFExportError, type DFTemplateOutput, exportJSONDF } from './df/dfexporter'
+import { DFTemplateDecodeError } from './df/errors'
+import { validateThisProjectsDFNames } from './df/nameValidation'
+import {
+	type DecodedDFRig,
+	type DecodedDFTemplate,
+	decodeCodeTemplatePayload,
+	decodeDFTemplates,
+	reconstructDFRigs,
+} from './df/templateDecoder'
+import { loadDFTemplateFiles } from './df/templateFile'
 import { IntentionalExportError } from './errors'
 import { exportPluginBlueprint } from './pluginCompiler'
 import resourcepackCompiler from './resourcepackCompiler'
@@ -68,12 +86,17 @@ interface ExportProjectOptions {
 	forceSave?: boolean
 	debugMode?: boolean
 	df?: boolean
+	dfOutput?: DFTemplateOutput
+	/** Resends every DF template, even if it didn't change since the last export */
+	dfForce?: boolean
 }
 
 async function actuallyExportProject({
 	forceSave = true,
 	debugMode = false,
 	df = false,
+	dfOutput = 'codeclient',
+	dfForce = false,
 }: ExportProjectOptions = {}): Promise<boolean> {
 	const aj = Project!.animated_java
 	const dialog = openExportProgressDialog()
@@ -151,15 +174,25 @@ async function actuallyExportProject({
 			debugMode,
 		})
 
+		let dfTemplateCount: number | undefined
 		if (df) {
-			PROGRESS_DESCRIPTION.set('Sending DiamondFire Template...')
-			await exportJSONDF({
+			PROGRESS_DESCRIPTION.set(
+				dfOutput === 'file'
+					? 'Saving DiamondFire Template...'
+					: dfOutput === 'place'
+						? 'Placing DiamondFire Template...'
+						: 'Sending DiamondFire Template...'
+			)
+			const result = await exportJSONDF({
 				rig,
+				rigHash,
 				animations,
-				displayItemPath,
 				textureExportFolder,
 				modelExportFolder,
+				output: dfOutput,
+				force: dfForce,
 			})
+			dfTemplateCount = result.templateCount
 		}
 
 		if (!aj.enable_plugin_mode && aj.data_pack_export_mode !== 'none') {
@@ -181,12 +214,24 @@ async function actuallyExportProject({
 		Project!.last_used_blueprint_id = aj.blueprint_id
 
 		if (forceSave) saveBlueprint()
-		Blockbench.showQuickMessage(
-			df
-				? 'Project exported. DF template delivery was attempted via CodeClient.'
-				: 'Project exported successfully!',
-			2000
-		)
+		if (!df) {
+			Blockbench.showQuickMessage('Project exported successfully!', 2000)
+		} else if (dfOutput !== 'file' && dfTemplateCount === 0) {
+			Blockbench.showQuickMessage(
+				'Project exported. All DF templates are up to date, nothing was sent.',
+				2000
+			)
+		} else if (dfOutput === 'codeclient') {
+			Blockbench.showQuickMessage(
+				`Project exported. Delivery of ${dfTemplateCount} DF template(s) was attempted via CodeClient.`,
+				2000
+			)
+		} else if (dfOutput === 'place') {
+			Blockbench.showQuickMessage(
+				`Project exported. Placed ${dfTemplateCount} DF template(s) via CodeClient.`,
+				2000
+			)
+		}
 
 		return true
 	} catch (e: any) {
@@ -220,8 +265,16 @@ async function actuallyExportProject({
 	return false
 }
 
-export async function exportProjectDF() {
-	await exportProject({ df: true })
+/**
+ * Exports the project and its DF templates. Without an output, the templates go where the
+ * project's DiamondFire settings send them.
+ */
+export async function exportProjectDF(output?: DFTemplateOutput, force = false) {
+	await exportProject({
+		df: true,
+		dfOutput: output ?? Project!.animated_java.df_output_mode,
+		dfForce: force,
+	})
 }
 
 function formatDFBaseTemplateSetLabel(category?: DFBaseTemplateCategory) {
@@ -238,7 +291,20 @@ function formatDFBaseTemplateSetLabel(category?: DFBaseTemplateCategory) {
 	}
 }
 
-export async function exportDFBaseTemplates(category?: DFBaseTemplateCategory) {
+/**
+ * The function namespace of the open project, which base templates are sent and checked with.
+ */
+function getDFFunctionNamespace() {
+	const namespace = Project?.animated_java?.df_function_namespace ?? DF_DEFAULT_FUNCTION_NAMESPACE
+	const error = validateDFFunctionNamespace(namespace)
+	if (error) throw new Error(error.message)
+	return namespace
+}
+
+export async function exportDFBaseTemplates(
+	category?: DFBaseTemplateCategory,
+	delivery: CodeClientDelivery = 'give'
+) {
 	try {
 		const templateCount = getDFBaseTemplateCount(category)
 		const templateLabel = translate(
@@ -249,16 +315,20 @@ export async function exportDFBaseTemplates(category?: DFBaseTemplateCategory) {
 		const setLabel = formatDFBaseTemplateSetLabel(category)
 		Blockbench.showQuickMessage(
 			translate(
-				'misc.export.df_base_templates.sending',
+				delivery === 'place'
+					? 'misc.export.df_base_templates.placing'
+					: 'misc.export.df_base_templates.sending',
 				String(templateCount),
 				setLabel.lowercase
 			),
 			2000
 		)
-		await sendDFBaseTemplatesToCodeClient(category)
+		await sendDFBaseTemplatesToCodeClient(category, delivery, getDFFunctionNamespace())
 		Blockbench.showQuickMessage(
 			translate(
-				'misc.export.df_base_templates.success',
+				delivery === 'place'
+					? 'misc.export.df_base_templates.placed'
+					: 'misc.export.df_base_templates.success',
 				setLabel.titlecase,
 				String(templateCount),
 				templateLabel
@@ -279,9 +349,12 @@ export async function exportDFBaseTemplates(category?: DFBaseTemplateCategory) {
 	}
 }
 
-export async function exportDFBaseTemplate(templateName: string) {
+export async function exportDFBaseTemplate(
+	templateName: string,
+	delivery: CodeClientDelivery = 'give'
+) {
 	try {
-		await sendDFBaseTemplateToCodeClient(templateName)
+		await sendDFBaseTemplateToCodeClient(templateName, delivery, getDFFunctionNamespace())
 		Blockbench.showQuickMessage(
 			translate('misc.export.df_base_template.success', templateName),
 			2000
@@ -300,6 +373,181 @@ export async function exportDFBaseTemplate(templateName: string) {
 	}
 }
 
+function formatDecodedDFRig(rig: DecodedDFRig, namespace: string) {
+	const lines = [
+		`**${getDFInitFunctionPrefix(namespace)}${rig.modelName}**`,
+		'',
+		'- ' +
+			translate(
+				'dialog.df_template_inspector.nodes',
+				String(rig.nodes.length),
+				rig.nodes.map(node => `${node.name} (${node.type})`).join(', ')
+			),
+		...Object.values(rig.animations).map(
+			animation =>
+				'- ' +
+				translate(
+					'dialog.df_template_inspector.animation',
+					animation.name,
+					String(animation.length),
+					String(Object.keys(animation.nodes).length)
+				)
+		),
+		...Object.entries(rig.variants).map(
+			([name, variantNodes]) =>
+				'- ' +
+				translate('dialog.df_template_inspector.variant', name, String(variantNodes.length))
+		),
+	]
+	if (rig.missingAnimations.length > 0) {
+		lines.push(
+			'- ' +
+				translate(
+					'dialog.df_template_inspector.missing_animations',
+					rig.missingAnimations.join(', ')
+				)
+		)
+	}
+	return lines.join('\n')
+}
+
+function formatDecodedDFTemplates(
+	templates: DecodedDFTemplate[],
+	rigs: DecodedDFRig[],
+	namespace: string
+) {
+	return [
+		translate('dialog.df_template_inspector.templates', String(templates.length)),
+		...templates.map(
+			template =>
+				`- ${template.functionName ?? String(template.payload.name ?? '?')} (${template.template.blocks.length} blocks)`
+		),
+		...rigs.map(rig => formatDecodedDFRig(rig, namespace)),
+	].join('\n\n')
+}
+
+async function inspectDFTemplateContents(contents: string[]) {
+	try {
+		const templates: DecodedDFTemplate[] = []
+		for (const content of contents) {
+			templates.push(...(await decodeDFTemplates(content)))
+		}
+		const namespace = getDFFunctionNamespace()
+		const rigs = await reconstructDFRigs(templates, namespace)
+		Blockbench.showMessageBox({
+			title: translate('dialog.df_template_inspector.title'),
+			message: formatDecodedDFTemplates(templates, rigs, namespace),
+			width: 640,
+		})
+	} catch (error) {
+		console.error(error)
+		if (error instanceof DFTemplateDecodeError) {
+			Blockbench.showMessageBox({
+				title: translate('dialog.df_template_inspector.failed'),
+				message: error.message,
+				buttons: [translate('misc.failed_to_export.button')],
+			})
+			return
+		}
+		openUnexpectedErrorDialog(error instanceof Error ? error : new Error(String(error)))
+	}
+}
+
+/**
+ * Decodes template files, give commands or `codetemplatedata` payloads, for example to check
+ * which version of a rig is placed on the plot.
+ */
+export function inspectDFTemplates() {
+	loadDFTemplateFiles(contents => void inspectDFTemplateContents(contents))
+}
+
+function formatDFBaseTemplateReport(report: DFBaseTemplateReport) {
+	const sections: string[] = []
+
+	const changed = report.entries.filter(
+		entry =>
+			entry.status !== 'up_to_date' &&
+			!(entry.status === 'missing' && entry.category === 'optional')
+	)
+	if (changed.length === 0) {
+		sections.push(translate('dialog.df_base_template_report.up_to_date'))
+	} else {
+		sections.push(
+			translate('dialog.df_base_template_report.changed', String(changed.length)),
+			changed
+				.map(
+					entry =>
+						'- ' +
+						translate(
+							`dialog.df_base_template_report.status.${entry.status}`,
+							...(entry.placedVersion
+								? [entry.templateName, entry.placedVersion, entry.currentVersion]
+								: [entry.templateName, entry.currentVersion])
+						)
+				)
+				.join('\n')
+		)
+	}
+
+	const incompatible = report.entries.filter(entry => entry.incompatible)
+	if (incompatible.length > 0) {
+		sections.push(
+			translate(
+				'dialog.df_base_template_report.incompatible',
+				String(DF_RIG_FORMAT_VERSION),
+				incompatible.map(entry => entry.templateName).join(', ')
+			)
+		)
+	}
+	if (report.outdatedRigs.length > 0) {
+		sections.push(
+			translate(
+				'dialog.df_base_template_report.outdated_rigs',
+				String(DF_RIG_FORMAT_VERSION),
+				report.outdatedRigs.map(rig => rig.functionName).join(', ')
+			)
+		)
+	}
+
+	return sections.join('\n\n')
+}
+
+/**
+ * Scans the plot through CodeClient and reports which base templates on it are older than the
+ * ones this version of the plugin sends, or can't read rigs exported with the current rig format.
+ */
+export async function checkDFBaseTemplates() {
+	try {
+		Blockbench.showQuickMessage(translate('misc.export.df_base_templates.scanning'), 2000)
+		const placed: DecodedDFTemplate[] = []
+		for (const code of await CODECLIENT_SESSION.scanPlot()) {
+			try {
+				placed.push(await decodeCodeTemplatePayload({ code }))
+			} catch (error) {
+				// Templates that weren't sent by Animated Java may not decode, and don't matter here.
+				console.warn('Skipped a template on the plot that failed to decode:', error)
+			}
+		}
+		const report = buildDFBaseTemplateReport(placed, getDFFunctionNamespace())
+		Blockbench.showMessageBox({
+			title: translate('dialog.df_base_template_report.title'),
+			message: formatDFBaseTemplateReport(report),
+			width: 640,
+		})
+	} catch (error) {
+		console.error(error)
+		if (error instanceof Error) {
+			Blockbench.showMessageBox({
+				title: translate('dialog.df_base_template_report.failed'),
+				message: error.message,
+				buttons: [translate('misc.failed_to_export.button')],
+			})
+			return
+		}
+		openUnexpectedErrorDialog(new Error(String(error)))
+	}
+}
+
 export async function exportProject(options?: ExportProjectOptions): Promise<boolean> {
 	if (!Project) return false // TODO: Handle this error better
 
@@ -340,5 +588,30 @@ export async function exportProject(options?: ExportProjectOptions): Promise<boo
 		return false
 	}
 
+	if (options?.df) {
+		const dfNameIssues = validateThisProjectsDFNames()
+		if (dfNameIssues.length > 0) {
+			Blockbench.showMessageBox({
+				title: translate('misc.failed_to_export.title'),
+				message:
+					translate('misc.failed_to_export.df_names.message') +
+					'\n\n' +
+					dfNameIssues
+						.map(
+							issue =>
+								translate(
+									'misc.failed_to_export.df_names.error_item',
+									issue.subject
+								) +
+								'\n - ' +
+								issue.message
+						)
+						.join('\n\n'),
+				buttons: [translate('misc.failed_to_export.button')],
+			})
+			return false
+		}
+	}
+
 	return await actuallyExportProject(options)
 }
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildDFBaseTemplateReport } from '../systems/df/baseTemplateReport'
+import {
+	buildHelperTemplate,
+	DF_BASE_HELPER_DEFINITIONS,
+	getDFBaseTemplateFunctionName,
+	getDFBaseTemplateHash,
+} from '../systems/df/baseTemplates'
+import {
+	DF_BASE_TEMPLATE_VERSIONS,
+	DF_RIG_FORMAT_VERSION,
+	DF_TEMPLATE_MARKER_KEYS,
+	markTemplate,
+	readTemplateMarker,
+} from '../systems/df/baseTemplateVersions'
+import type { DecodedDFTemplate } from '../systems/df/templateDecoder'
+import type { CodeBlock } from '../systems/df/types'
+
+const ICON_SNBT = '{components:{},count:1,id:"minecraft:book"}'
+
+function functionBlock(functionName: string): CodeBlock {
+	return {
+		id: 'block',
+		block: 'func',
+		data: functionName,
+		args: { items: [{ slot: 0, item: { id: 'item', data: { item: ICON_SNBT } } }] },
+	}
+}
+
+function decoded(blocks: CodeBlock[]): DecodedDFTemplate {
+	return { payload: {}, template: { blocks }, functionName: blocks[0].data }
+}
+
+// The base templates as this version of the plugin places them
+function placeBaseTemplates(): DecodedDFTemplate[] {
+	return DF_BASE_HELPER_DEFINITIONS.map(definition =>
+		decoded(buildHelperTemplate(definition).template!.blocks)
+	)
+}
+
+// Places `templateName` with a marker that is changed by `changeMarker`
+function replaceBaseTemplate(
+	placed: DecodedDFTemplate[],
+	templateName: string,
+	changeMarker: (marker: Record<string, string>) => Record<string, string>
+): DecodedDFTemplate[] {
+	const definition = DF_BASE_HELPER_DEFINITIONS.find(
+		definition => definition.templateName === templateName
+	)!
+	const marker = changeMarker({
+		[DF_TEMPLATE_MARKER_KEYS.template]: templateName,
+		[DF_TEMPLATE_MARKER_KEYS.version]: DF_BASE_TEMPLATE_VERSIONS[templateName],
+		[DF_TEMPLATE_MARKER_KEYS.hash]: getDFBaseTemplateHash(definition),
+	})
+	const functionName = getDFBaseTemplateFunctionName(definition)
+	return [
+		...placed.filter(template => template.functionName !== functionName),
+		decoded(markTemplate([functionBlock(functionName)], marker)),
+	]
+}
+
+function getEntry(placed: DecodedDFTemplate[], templateName: string) {
+	return buildDFBaseTemplateReport(placed).entries.find(
+		entry => entry.templateName === templateName
+	)
+}
+
+describe('DF base template markers', () => {
+	it('are read back from the function icon', () => {
+		const definition = DF_BASE_HELPER_DEFINITIONS[0]
+		const { blocks } = buildHelperTemplate(definition).template!
+
+		expect(readTemplateMarker(blocks)).toEqual({
+			[DF_TEMPLATE_MARKER_KEYS.template]: definition.templateName,
+			[DF_TEMPLATE_MARKER_KEYS.version]: DF_BASE_TEMPLATE_VERSIONS[definition.templateName],
+			[DF_TEMPLATE_MARKER_KEYS.hash]: getDFBaseTemplateHash(definition),
+		})
+	})
+
+	it('keep the other components of the icon', () => {
+		const [block] = markTemplate(
+			[
+				{
+					...functionBlock('rig.test'),
+					args: {
+						items: [
+							{
+								slot: 0,
+								item: {
+									id: 'item',
+									data: { item: '{components:{"minecraft:glint":1b},id:"a"}' },
+								},
+							},
+						],
+					},
+				},
+			],
+			{ aj_version: '1.0.0' }
+		)
+
+		expect(block.args!.items![0].item.data.item).toBe(
+			'{components:{"minecraft:custom_data":{PublicBukkitValues:{"hypercube:aj_version":"1.0.0"}},"minecraft:glint":1b},id:"a"}'
+		)
+		expect(readTemplateMarker([block])).toEqual({ aj_version: '1.0.0' })
+	})
+
+	it('are empty for templates without a function icon', () => {
+		expect(readTemplateMarker([{ id: 'block', block: 'process', data: 'rig.test' }])).toEqual(
+			{}
+		)
+		expect(readTemplateMarker([functionBlock('rig.test')])).toEqual({})
+	})
+})
+
+describe('DF base template report', () => {
+	it('reports templates with the current marker as up to date', () => {
+		const report = buildDFBaseTemplateReport(placeBaseTemplates())
+
+		expect(report.entries).toHaveLength(DF_BASE_HELPER_DEFINITIONS.length)
+		for (const entry of report.entries) {
+			expect(entry).toMatchObject({
+				currentVersion: entry.placedVersion,
+				status: 'up_to_date',
+				incompatible: false,
+			})
+		}
+		expect(report.outdatedRigs).toEqual([])
+	})
+
+	it('reports templates with an older version as outdated', () => {
+		// RigAnimate 1.2.0 can still read the current rig format, 1.1.0 can't
+		expect(
+			getEntry(
+				replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', marker => ({
+					...marker,
+					aj_version: '1.2.0',
+				})),
+				'RigAnimate'
+			)
+		).toMatchObject({ placedVersion: '1.2.0', status: 'outdated', incompatible: false })
+		expect(
+			getEntry(
+				replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', marker => ({
+					...marker,
+					aj_version: '1.1.0',
+				})),
+				'RigAnimate'
+			)
+		).toMatchObject({ placedVersion: '1.1.0', status: 'outdated', incompatible: true })
+	})
+
+	it('compares the hash of templates with the current version', () => {
+		expect(
+			getEntry(
+				replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', marker => ({
+					...marker,
+					aj_hash: '0000000000000000',
+				})),
+				'RigAnimate'
+			)
+		).toMatchObject({ status: 'modified', incompatible: false })
+		expect(
+			getEntry(
+				replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', marker => ({
+					...marker,
+					aj_version: '99.0.0',
+				})),
+				'RigAnimate'
+			)
+		).toMatchObject({ status: 'newer', incompatible: false })
+	})
+
+	it('reports templates without a marker as unversioned', () => {
+		const placed = replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', () => ({}))
+
+		expect(getEntry(placed, 'RigAnimate')).toMatchObject({
+			placedVersion: undefined,
+			status: 'unversioned',
+			incompatible: true,
+		})
+		expect(getEntry(placed, 'RigMove')).toMatchObject({ status: 'up_to_date' })
+	})
+
+	it('reports templates that are not placed as missing', () => {
+		const placed = placeBaseTemplates().filter(
+			template => readTemplateMarker(template.template.blocks).aj_template !== 'RigAnimate'
+		)
+
+		expect(getEntry(placed, 'RigAnimate')).toMatchObject({
+			placedVersion: undefined,
+			status: 'missing',
+			incompatible: false,
+		})
+	})
+
+	it('treats a malformed version like an older one', () => {
+		expect(
+			getEntry(
+				replaceBaseTemplate(placeBaseTemplates(), 'RigAnimate', marker => ({
+					...marker,
+					aj_version: 'latest',
+				})),
+				'RigAnimate'
+			)
+		).toMatchObject({ placedVersion: 'latest', status: 'outdated', incompatible: true })
+	})
+
+	it('reports rigs exported with another rig format', () => {
+		const rig = (functionName: string, rigFormat?: string) =>
+			decoded(
+				rigFormat == undefined
+					? [functionBlock(functionName)]
+					: markTemplate([functionBlock(functionName)], { aj_rig_format: rigFormat })
+			)
+		const report = buildDFBaseTemplateReport([
+			...placeBaseTemplates(),
+			rig('rig.init.current', String(DF_RIG_FORMAT_VERSION)),
+			rig('rig.init.older', String(DF_RIG_FORMAT_VERSION - 1)),
+			rig('rig.init.unversioned'),
+			rig('rig.init.malformed', 'seven'),
+			rig('other.init.robot', '1'),
+		])
+
+		expect(report.outdatedRigs).toEqual([
+			{ functionName: 'rig.init.older', rigFormat: DF_RIG_FORMAT_VERSION - 1 },
+			{ functionName: 'rig.init.unversioned', rigFormat: undefined },
+			{ functionName: 'rig.init.malformed', rigFormat: NaN },
+		])
+	})
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildHelperTemplate, DF_BASE_HELPER_DEFINITIONS } from '../systems/df/baseTemplates'
+import { DF_BASE_TEMPLATE_VERSIONS } from '../systems/df/baseTemplateVersions'
+
+describe('DF base templates', () => {
+	it('have unique template and function names', () => {
+		const templateNames = DF_BASE_HELPER_DEFINITIONS.map(definition => definition.templateName)
+		const functionNames = DF_BASE_HELPER_DEFINITIONS.map(definition => definition.functionName)
+
+		expect(new Set(templateNames).size).toBe(templateNames.length)
+		expect(new Set(functionNames).size).toBe(functionNames.length)
+	})
+
+	it('all have a version', () => {
+		expect(
+			DF_BASE_HELPER_DEFINITIONS.map(definition => definition.templateName).sort()
+		).toEqual(Object.keys(DF_BASE_TEMPLATE_VERSIONS).sort())
+	})
+
+	// Review changes to these snapshots like changes to the code on the plot. Bump the version of
+	// the template in `baseTemplateVersions.ts` when its snapshot changes.
+	it.each(DF_BASE_HELPER_DEFINITIONS.map(definition => [definition.templateName, definition]))(
+		'builds %s',
+		(_, definition) => {
+			expect(buildHelperTemplate(definition).template).toMatchSnapshot()
+		}
+	)
+})
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	type CodeClientAuthState,
+	CodeClientError,
+	CodeClientSession,
+} from '../systems/df/codeclientSession'
+
+// Returns the replies CodeClient sends to a command, most commands get none
+type Responder = (command: string) => string[]
+
+// The `readyState` values of `WebSocket`
+const SOCKET_OPEN = 1
+const SOCKET_CLOSED = 3
+
+/** Stands in for the CodeClient API, answering every command with the replies of `respond` */
+class FakeSocket extends EventTarget {
+	static respond: Responder = () => []
+
+	readyState = 0
+	sent: string[] = []
+
+	constructor(public url: string) {
+		super()
+		sockets.push(this)
+		setTimeout(() => {
+			this.readyState = SOCKET_OPEN
+			this.dispatchEvent(new Event('open'))
+		})
+	}
+
+	send(command: string) {
+		this.sent.push(command)
+		for (const reply of FakeSocket.respond(command)) {
+			setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data: reply })))
+		}
+	}
+
+	close() {
+		this.readyState = SOCKET_CLOSED
+		this.dispatchEvent(new Event('close'))
+	}
+}
+
+let sockets: FakeSocket[] = []
+
+// Short timeouts, so the tests don't wait for replies that never come
+const OPTIONS = {
+	url: 'ws://codeclient.test',
+	authTimeoutMs: 20,
+	modeTimeoutMs: 20,
+	placeTimeoutMs: 20,
+	postSendResponseWindowMs: 20,
+}
+
+const TEMPLATES = ['H4sIAAAAAAAA_1', 'H4sIAAAAAAAA_2']
+
+// A player that runs `/auth` when asked to and is in the code space
+function respondAsCodingPlayer(command: string): string[] {
+	if (command.startsWith('scopes ')) return ['auth']
+	if (command === 'mode') return ['code']
+	if (command === 'place go') return ['place done']
+	return []
+}
+
+beforeEach(() => {
+	sockets = []
+	FakeSocket.respond = respondAsCodingPlayer
+	vi.stubGlobal('WebSocket', Object.assign(FakeSocket, { OPEN: SOCKET_OPEN }))
+})
+
+afterEach(() => {
+	vi.unstubAllGlobals()
+})
+
+describe('CodeClient session', () => {
+	it('requests the scopes a command needs once', async () => {
+		const session = new CodeClientSession(OPTIONS)
+		const authStates: CodeClientAuthState[] = []
+		session.onStatusChange(status => {
+			if (authStates.at(-1) !== status.auth) authStates.push(status.auth)
+		})
+
+		await session.placeTemplates(TEMPLATES)
+		await session.placeTemplates(TEMPLATES)
+
+		expect(sockets).toHaveLength(1)
+		expect(sockets[0].url).toBe('ws://codeclient.test')
+		expect(sockets[0].sent.filter(command => command.startsWith('scopes '))).toEqual([
+			'scopes default write_code',
+		])
+		expect(authStates).toEqual(['unauthed', 'pending', 'authed'])
+		expect(session.status).toMatchObject({
+			connection: 'connected',
+			auth: 'authed',
+			scopes: ['default', 'write_code'],
+			mode: 'dev',
+		})
+	})
+
+	it('places templates and waits until CodeClient is done', async () => {
+		const session = new CodeClientSession(OPTIONS)
+
+		await session.placeTemplates(TEMPLATES)
+
+		expect(sockets[0].sent).toEqual([
+			'scopes default write_code',
+			'mode',
+			'place swap',
+			...TEMPLATES.map(code => `place ${code}`),
+			'place go',
+		])
+		expect(session.status.error).toBeUndefined()
+	})
+
+	it('reports scopes that are not granted in time', async () => {
+		FakeSocket.respond = command =>
+			command.startsWith('scopes ') ? [] : respondAsCodingPlayer(command)
+		const session = new CodeClientSession(OPTIONS)
+
+		const place = session.placeTemplates(TEMPLATES)
+
+		await expect(place).rejects.toThrow(CodeClientError)
+		await expect(place).rejects.toMatchObject({ code: 'auth_timeout' })
+		expect(sockets[0].sent).not.toContain('place swap')
+		expect(session.status).toMatchObject({
+			auth: 'unauthed',
+			scopes: [],
+			error: { code: 'auth_timeout' },
+		})
+	})
+
+	it('reports templates that are not placed in time', async () => {
+		FakeSocket.respond = command =>
+			command === 'place go' ? [] : respondAsCodingPlayer(command)
+		const session = new CodeClientSession(OPTIONS)
+
+		await expect(session.placeTemplates(TEMPLATES)).rejects.toMatchObject({
+			code: 'place_timeout',
+		})
+	})
+
+	it('reports the commands CodeClient rejects', async () => {
+		FakeSocket.respond = command =>
+			command === 'place go' ? ['unauthed'] : respondAsCodingPlayer(command)
+		const session = new CodeClientSession(OPTIONS)
+
+		await expect(session.placeTemplates(TEMPLATES)).rejects.toMatchObject({
+			code: 'unauthed',
+		})
+		// The scopes were revoked, so they are requested again
+		expect(session.status).toMatchObject({ auth: 'unauthed', scopes: [] })
+	})
+
+	it('rejects commands that need another mode', async () => {
+		FakeSocket.respond = command =>
+			command === 'mode' ? ['play'] : respondAsCodingPlayer(command)
+		const session = new CodeClientSession(OPTIONS)
+
+		await expect(session.placeTemplates(TEMPLATES)).rejects.toMatchObject({
+			code: 'wrong_mode',
+			message: 'You are in play mode, but this requires dev mode.',
+		})
+	})
+})
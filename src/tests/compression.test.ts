@@ -0,0 +1,70 @@
+import { gunzipSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+
+import { buildCodeTemplatePayload } from '../systems/df/codeclient'
+import { DFCompressionError, gZipToText, textToGZip } from '../systems/df/compression'
+import type { CodeTemplate } from '../systems/df/types'
+
+const TEMPLATE: CodeTemplate = {
+	blocks: [
+		{
+			id: 'block',
+			block: 'func',
+			data: 'rig.init.ünïcødé',
+			args: { items: [] },
+		},
+		{
+			id: 'block',
+			block: 'set_var',
+			action: 'SetDictValue',
+			args: {
+				items: [
+					{
+						item: {
+							id: 'var',
+							data: { name: 'rig.model.anim.idle', scope: 'unsaved' },
+						},
+						slot: 0,
+					},
+					{ item: { id: 'txt', data: { name: '~'.repeat(5000) } }, slot: 1 },
+				],
+			},
+		},
+	],
+}
+
+describe('DF compression', () => {
+	it('round-trips template payloads', async () => {
+		const json = JSON.stringify(TEMPLATE)
+		const compressed = await textToGZip(json)
+
+		expect(compressed).toMatch(/^[A-Za-z0-9+/]+=*$/)
+		expect(compressed.length).toBeLessThan(json.length)
+		expect(await gZipToText(compressed)).toBe(json)
+	})
+
+	it('produces standard gzip data', async () => {
+		const compressed = await textToGZip('rig.init.model')
+		const decompressed = gunzipSync(Buffer.from(compressed, 'base64')).toString('utf8')
+
+		expect(decompressed).toBe('rig.init.model')
+	})
+
+	it('round-trips the code of codetemplatedata payloads', async () => {
+		const payload = JSON.parse(
+			await buildCodeTemplatePayload(
+				{ templateName: 'rig.init.model', template: TEMPLATE },
+				textToGZip
+			)
+		)
+
+		expect(payload.name).toBe('rig.init.model')
+		expect(JSON.parse(await gZipToText(payload.code))).toEqual(TEMPLATE)
+	})
+
+	it('rejects payloads that are not gzipped', async () => {
+		await expect(gZipToText(Buffer.from('not gzip').toString('base64'))).rejects.toThrow(
+			DFCompressionError
+		)
+	})
+})
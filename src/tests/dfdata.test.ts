@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	decodeAnimationFrames,
+	decodeKeyframeRecords,
+	decodeLegacyAnimationFrames,
+	encodeAnimationFrames,
+	encodeKeyframeRecords,
+	fitChannelEncodings,
+	getChannelRange,
+} from '../systems/df/dfdata'
+import { DFExportError, DFTemplateDecodeError } from '../systems/df/errors'
+
+const OPTIONS = { label: "Node 'arm' of animation 'walk'" }
+
+// Writes a value the way animations exported before the data header did
+function legacyValue(value: number): string {
+	let remaining = Math.round(value * 1000)
+	let chars = ''
+	for (let i = 0; i < 3; i++) {
+		const digit = (((remaining % 128) + 192) % 128) - 64
+		chars += String.fromCharCode(digit + 64)
+		remaining = (remaining - digit) / 128
+	}
+	return chars
+}
+
+describe('DF animation data', () => {
+	it('gives every channel the smallest width that fits its values', () => {
+		const frames = [
+			[0, 1.5, -2000, 0.12345],
+			[0.01, -1.5, 2000, -0.5],
+		]
+		const options = { ...OPTIONS, precision: [3, 3, 3, 5] }
+
+		expect(fitChannelEncodings(frames, options)).toEqual([
+			{ precision: 3, width: 1 },
+			{ precision: 3, width: 2 },
+			{ precision: 3, width: 4 },
+			{ precision: 5, width: 3 },
+		])
+		expect(decodeAnimationFrames(encodeAnimationFrames(frames, options))).toEqual(frames)
+	})
+
+	it('stores repeated frames once', () => {
+		const frames = [
+			[1, 2],
+			[1, 2],
+			[1, 2],
+			[1, 2],
+			[1, 2],
+			[3, 4],
+			[1, 2],
+		]
+		const encoded = encodeAnimationFrames(frames, OPTIONS)
+
+		// Header of 2 + 2 * 2 characters, and 3 runs of a 3 character run length and 2 values
+		expect(encoded).toHaveLength(6 + 3 * (3 + 2 + 2))
+		expect(decodeAnimationFrames(encoded)).toEqual(frames)
+	})
+
+	it('writes negative zero and values that round to zero as zero', () => {
+		const encoded = encodeAnimationFrames([[-0, -0.0001, 0.0004]], OPTIONS)
+
+		expect(encoded).toBe(encodeAnimationFrames([[0, 0, 0]], OPTIONS))
+		for (const value of decodeAnimationFrames(encoded)[0]) {
+			expect(Object.is(value, 0)).toBe(true)
+		}
+	})
+
+	it('names the node and channel of a value that is out of range', () => {
+		const { min, max } = getChannelRange(4)
+
+		expect(() => encodeAnimationFrames([[0, 200_000]], OPTIONS)).toThrow(DFExportError)
+		expect(() => encodeAnimationFrames([[0, 200_000]], OPTIONS)).toThrow(
+			"Node 'arm' of animation 'walk' contains a value (200000) in channel 2 that is out of range. " +
+				`With a precision of 3 decimal places, values must be between ${min / 1000} and ${max / 1000}.`
+		)
+		expect(() =>
+			encodeAnimationFrames([[0, 200_000]], { ...OPTIONS, precision: 2 })
+		).not.toThrow()
+	})
+
+	it('rejects data of an unsupported version', () => {
+		expect(() => decodeAnimationFrames('@')).toThrow(DFTemplateDecodeError)
+	})
+
+	it('decodes animation data exported before the data header was added', () => {
+		const frames = [
+			[1.5, -0.25],
+			[-1000, 0],
+		]
+		const data = frames.flat().map(legacyValue).join('')
+
+		expect(decodeLegacyAnimationFrames(data, 2)).toEqual(frames)
+		expect(() => decodeLegacyAnimationFrames(data.slice(1), 2)).toThrow(
+			'Legacy animation data has 11 characters, which is not a multiple of the frame size 6.'
+		)
+	})
+})
+
+describe('DF keyframe records', () => {
+	it('round-trips records and drops empty trailing fields', () => {
+		const encoded = encodeKeyframeRecords([
+			{ frame: 1, fields: ['root', 'step', ''] },
+			{ frame: 4, fields: ['hand', 'wave', ' if entity @s '] },
+		])
+
+		expect(encoded).toBe('1|root|step;4|hand|wave|if entity @s')
+		expect(decodeKeyframeRecords(encoded)).toEqual([
+			{ frame: 1, fields: ['root', 'step'] },
+			{ frame: 4, fields: ['hand', 'wave', 'if entity @s'] },
+		])
+	})
+
+	it('rejects fields that contain separators instead of changing them', () => {
+		for (const condition of ['a;b', 'a|b', 'a\nb']) {
+			expect(() =>
+				encodeKeyframeRecords([{ frame: 1, fields: ['root', 'step', condition] }])
+			).toThrow(DFExportError)
+		}
+	})
+})
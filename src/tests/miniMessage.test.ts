@@ -0,0 +1,121 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+
+import { jsonTextToMiniMessage, toMiniMessage } from '../systems/df/miniMessage'
+
+const MINECRAFT_VERSION = '1.21.5'
+
+interface BlueprintElement {
+	type: string
+	name: string
+	text?: string
+}
+
+const TEXT_DISPLAYS = Object.fromEntries(
+	(
+		JSON.parse(
+			readFileSync(
+				new URL('../../test_blueprints/text_display.ajblueprint', import.meta.url),
+				'utf8'
+			)
+		) as { elements: BlueprintElement[] }
+	).elements
+		.filter(element => element.type === 'animated_java:text_display')
+		.map(element => [element.name, element.text ?? ''])
+)
+
+describe('DF text display MiniMessage', () => {
+	it('converts the text displays of the test blueprint', () => {
+		expect(jsonTextToMiniMessage(TEXT_DISPLAYS.ascii_sga, MINECRAFT_VERSION)).toBe(
+			'<font:minecraft:alt>ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz</font>'
+		)
+		expect(jsonTextToMiniMessage(TEXT_DISPLAYS.asciillager, MINECRAFT_VERSION)).toBe(
+			'<font:minecraft:illageralt>!,-.0123456789?abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ</font>'
+		)
+		expect(jsonTextToMiniMessage(TEXT_DISPLAYS.accented, MINECRAFT_VERSION)).toBe(
+			JSON.parse(TEXT_DISPLAYS.accented) as string
+		)
+	})
+
+	it('escapes tags and backslashes in text', () => {
+		expect(jsonTextToMiniMessage(TEXT_DISPLAYS.ascii, MINECRAFT_VERSION)).toBe(
+			' !"#$%&\'()*+,-./0123456789:;\\<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\\\]^_`abcdefghijklmnopqrstuvwxyz{|}~£ƒªº¬«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀∅∈≡±≥≤⌠⌡÷≈°∙√ⁿ²■'
+		)
+	})
+
+	it('styles every span and lets children inherit the style of their parent', () => {
+		expect(
+			toMiniMessage([
+				{ text: 'Hello ', color: 'gold', bold: true },
+				{ text: 'world', color: '#55FFFF', bold: false, italic: true },
+			])
+		).toBe(
+			'<color:gold><bold>Hello <color:#55FFFF><bold:false><italic>world</italic></bold></color></bold></color>'
+		)
+	})
+
+	it('converts line breaks', () => {
+		expect(toMiniMessage({ text: 'first\nsecond', extra: ['\nthird'] })).toBe(
+			'first<newline>second<newline>third'
+		)
+	})
+
+	it('converts click and hover events', () => {
+		expect(
+			toMiniMessage({
+				text: 'Click',
+				click_event: { action: 'run_command', command: "/say it's me" },
+				hover_event: { action: 'show_text', value: { text: 'Runs /say', color: 'red' } },
+			})
+		).toBe(
+			"<click:run_command:'/say it\\'s me'><hover:show_text:'<color:red>Runs /say</color>'>Click</hover></click>"
+		)
+		expect(
+			toMiniMessage({
+				text: 'Docs',
+				clickEvent: { action: 'open_url', value: 'https://example.com' },
+			})
+		).toBe("<click:open_url:'https://example.com'>Docs</click>")
+	})
+
+	it('converts translations, keybinds, selectors and scores', () => {
+		expect(
+			toMiniMessage([
+				{ translate: 'chat.type.text', with: ['a', { text: 'b', color: 'red' }] },
+				{ keybind: 'key.jump' },
+				{ selector: '@p' },
+				{ score: { name: '@s', objective: 'kills' } },
+			])
+		).toBe(
+			"<lang:'chat.type.text':'a':'<color:red>b</color>'><key:'key.jump'><selector:'@p'><score:'@s':'kills'>"
+		)
+	})
+
+	it('parses SNBT text like the text display does', () => {
+		expect(jsonTextToMiniMessage("{text:'Hello',color:red,bold:true}", MINECRAFT_VERSION)).toBe(
+			'<color:red><bold>Hello</bold></color>'
+		)
+		expect(
+			jsonTextToMiniMessage("['', {text:'a', italic:false}, 'b']", MINECRAFT_VERSION)
+		).toBe('<italic:false>a</italic>b')
+	})
+
+	it('converts shadow colors', () => {
+		expect(
+			jsonTextToMiniMessage(
+				"{text:'Shadow',color:gold,shadow_color:[1.0,0.0,0.0,0.5]}",
+				MINECRAFT_VERSION
+			)
+		).toBe('<color:gold><shadow:#ff0000:0.5>Shadow</shadow></color>')
+		expect(toMiniMessage({ text: 'Dark', shadow_color: -16777216 })).toBe(
+			'<shadow:#000000:1>Dark</shadow>'
+		)
+	})
+
+	it('keeps text that is not JSON', () => {
+		expect(jsonTextToMiniMessage('<red>Already styled', MINECRAFT_VERSION)).toBe(
+			'<red>Already styled'
+		)
+		expect(jsonTextToMiniMessage('  ', MINECRAFT_VERSION)).toBe('')
+	})
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { type DFNameValidationInput, validateDFNames } from '../systems/df/nameValidation'
+
+// Only `validateDFNames` is tested, which doesn't need the project or the languages
+vi.mock('../util/lang', () => ({
+	localize: (key: string, ...args: string[]) =>
+		[key.replace('misc.failed_to_export.df_names.', ''), ...args].join(' '),
+}))
+vi.mock('../variants', () => ({}))
+vi.mock('../systems/animationRenderer', () => ({}))
+vi.mock('../systems/df/dfexporter', () => ({}))
+
+const VALID_INPUT: DFNameValidationInput = {
+	modelId: 'robot',
+	functionNamespace: 'rig',
+	animationNames: ['animation.model.walk', 'idle'],
+	variants: [
+		{ name: 'default', isDefault: true },
+		{ name: 'red', isDefault: false },
+	],
+	nodeNames: ['head', 'arm'],
+	keyframes: [
+		{
+			animationName: 'animation.model.walk',
+			functions: 'step\n# comment; with separators|\nrig.playSound',
+			executeCondition: ' if entity @s ',
+		},
+	],
+}
+
+describe('DF name validation', () => {
+	it('accepts valid names', () => {
+		expect(validateDFNames(VALID_INPUT)).toEqual([])
+	})
+
+	it('reserves the names of the dictionaries the init functions fill', () => {
+		expect(
+			validateDFNames({
+				...VALID_INPUT,
+				animationNames: ['animation.model.nodes', 'animations'],
+				variants: [
+					{ name: 'variants', isDefault: false },
+					{ name: 'default', isDefault: false },
+				],
+			})
+		).toEqual([
+			{ subject: 'subject.animation nodes', message: 'reserved nodes' },
+			{ subject: 'subject.animation animations', message: 'reserved animations' },
+			{ subject: 'subject.variant variants', message: 'reserved variants' },
+			{ subject: 'subject.variant default', message: 'reserved default' },
+		])
+	})
+
+	it('reserves the event source of the root for nodes', () => {
+		expect(validateDFNames({ ...VALID_INPUT, nodeNames: ['root', 'nodes'] })).toEqual([
+			{ subject: 'subject.node root', message: 'reserved root' },
+		])
+	})
+
+	it('reports illegal characters', () => {
+		expect(
+			validateDFNames({
+				...VALID_INPUT,
+				animationNames: ['50%'],
+				variants: [{ name: 'a|b', isDefault: false }],
+				nodeNames: ['line\nbreak'],
+			})
+		).toEqual([
+			{ subject: 'subject.animation 50%', message: 'illegal_character %' },
+			{ subject: 'subject.variant a|b', message: 'illegal_character |' },
+			{ subject: 'subject.node line\nbreak', message: 'illegal_character U+000A' },
+		])
+	})
+
+	it('reports keyframe texts that contain keyframe separators', () => {
+		expect(
+			validateDFNames({
+				...VALID_INPUT,
+				keyframes: [
+					{ animationName: 'animation.model.walk', functions: 'step;jump' },
+					{ animationName: 'idle', executeCondition: 'a|b' },
+				],
+			})
+		).toEqual([
+			{ subject: 'subject.animation walk', message: 'keyframe_separator step;jump ;' },
+			{ subject: 'subject.animation idle', message: 'keyframe_separator a|b |' },
+		])
+	})
+
+	it('reports animations that would get the same name', () => {
+		expect(
+			validateDFNames({ ...VALID_INPUT, animationNames: ['animation.model.walk', 'walk'] })
+		).toEqual([
+			{
+				subject: 'subject.animation walk',
+				message: 'duplicate_animation walk animation.model.walk',
+			},
+		])
+	})
+
+	it('reports names that look like animation or split templates', () => {
+		expect(
+			validateDFNames({
+				...VALID_INPUT,
+				modelId: 'robot.part2',
+				animationNames: ['a.anim.b'],
+			})
+		).toEqual([
+			{ subject: 'subject.model_id robot.part2', message: 'function_suffix robot.part2' },
+			{ subject: 'subject.animation a.anim.b', message: 'function_suffix a.anim.b' },
+		])
+	})
+
+	it('reports empty model ids and function names that are too long', () => {
+		expect(validateDFNames({ ...VALID_INPUT, modelId: ' ', animationNames: [] })).toEqual([
+			{ subject: 'subject.model_id  ', message: 'empty' },
+		])
+
+		const modelId = 'a'.repeat(60)
+		expect(validateDFNames({ ...VALID_INPUT, modelId, animationNames: [] })).toEqual([
+			{
+				subject: `subject.model_id ${modelId}`,
+				message: `too_long rig.init.${modelId} 69 64`,
+			},
+		])
+	})
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { buildCodeTemplatePayload } from '../systems/df/codeclient'
+import { textToGZip } from '../systems/df/compression'
+import {
+	ANIMATION_DATA_PREFIX,
+	DF_ANIMATION_INIT_PARAMETERS,
+	DF_INIT_PARAMETERS,
+	encodeAnimationFrames,
+	encodeKeyframeRecords,
+	getDFInitFunctionPrefix,
+} from '../systems/df/dfdata'
+import {
+	buildAnimationTemplateUnits,
+	buildInitTemplates,
+	buildRigTemplateUnits,
+	type DFTemplateData,
+	getAnimationInitFunctionName,
+	type RawAnimationData,
+	type RawVariantData,
+} from '../systems/df/dfexporter'
+import { DFTemplateDecodeError } from '../systems/df/errors'
+import { decodeCodeTemplatePayload, reconstructDFRigs } from '../systems/df/templateDecoder'
+
+// The unit builders don't need the node configs, the animation renderer or the text parser
+vi.mock('../nodeConfigs', () => ({}))
+vi.mock('../systems/animationRenderer', () => ({}))
+vi.mock('../systems/df/miniMessage', () => ({}))
+
+const INIT_FUNCTION_PREFIX = getDFInitFunctionPrefix()
+
+// More bones than fit in a single block, so the `nodes` list is continued with `AppendValue`
+const BONE_NAMES = Array.from({ length: 30 }, (_, index) => `bone_${index + 1}`)
+
+const TEMPLATE_DATA: DFTemplateData = {
+	model_name: 'robot',
+	item_material: 'minecraft:white_dye',
+	nodes: {
+		...Object.fromEntries(
+			BONE_NAMES.map(name => [
+				name,
+				{ name, type: 'bone' as const, data: { item_model: `robot:${name}` } },
+			])
+		),
+		hand: { name: 'hand', type: 'locator', data: {} },
+	},
+}
+
+const VARIANT_DATA: RawVariantData = {
+	red: [{ name: 'bone_1', type: 'bone', data: { item_model: 'robot:bone_1_red' } }],
+}
+
+const WALK_FRAMES = {
+	bone_1: [
+		[1, 0, 0, 0, 0, 1, 0, 0.5, 0, 0, 1, 0, 0, 0, 0, 1],
+		[1, 0, 0, 0, 0, 1, 0, 0.75, 0, 0, 1, 0, 0, 0, 0, 1],
+	],
+	hand: [
+		[0, 1.5, 0, 0, 0],
+		[0, 1.5, 0.25, 45, 0],
+	],
+}
+
+const WALK_KEYFRAMES = {
+	variants: [{ frame: 2, fields: ['red', 'if entity @s'] }],
+}
+
+async function buildWalkAnimation(): Promise<RawAnimationData[string]> {
+	const nodes: Record<string, string> = {}
+	for (const [name, frames] of Object.entries(WALK_FRAMES)) {
+		const encoded = encodeAnimationFrames(frames, { label: name })
+		nodes[name] = ANIMATION_DATA_PREFIX + (await textToGZip(encoded))
+	}
+	return {
+		length: 2,
+		loop_mode: 'loop',
+		loop_delay: 0,
+		nodes,
+		modified_nodes: ['bone_1'],
+		keyframes: { variants: encodeKeyframeRecords(WALK_KEYFRAMES.variants) },
+	}
+}
+
+async function exportAndDecode() {
+	const templates = [
+		...(await buildInitTemplates(
+			INIT_FUNCTION_PREFIX,
+			TEMPLATE_DATA.model_name,
+			'Init Rig robot',
+			DF_INIT_PARAMETERS,
+			false,
+			buildRigTemplateUnits(TEMPLATE_DATA, ['walk'], VARIANT_DATA, INIT_FUNCTION_PREFIX)
+		)),
+		...(await buildInitTemplates(
+			INIT_FUNCTION_PREFIX,
+			getAnimationInitFunctionName(TEMPLATE_DATA.model_name, 'walk'),
+			'Init Animation robot walk',
+			DF_ANIMATION_INIT_PARAMETERS,
+			true,
+			buildAnimationTemplateUnits('walk', await buildWalkAnimation())
+		)),
+	]
+
+	const decoded = []
+	for (const template of templates) {
+		const payload = await buildCodeTemplatePayload(template, textToGZip)
+		decoded.push(
+			await decodeCodeTemplatePayload(JSON.parse(payload) as Record<string, unknown>)
+		)
+	}
+	return reconstructDFRigs(decoded)
+}
+
+describe('DF template decoder', () => {
+	it('reconstructs an exported rig', async () => {
+		const [rig, ...otherRigs] = await exportAndDecode()
+
+		expect(otherRigs).toEqual([])
+		expect(rig.modelName).toBe('robot')
+		expect(rig.nodes.map(node => [node.name, node.type])).toEqual([
+			...BONE_NAMES.map(name => [name, 'model']),
+			['hand', 'locator'],
+		])
+		expect(rig.nodes[0]).toMatchObject({
+			itemId: 'minecraft:white_dye',
+			tags: { item_model: 'robot:bone_1' },
+		})
+
+		expect(rig.animationNames).toEqual(['walk'])
+		expect(rig.missingAnimations).toEqual([])
+		expect(rig.animations.walk).toEqual({
+			name: 'walk',
+			length: 2,
+			loopMode: 'loop',
+			loopDelay: 0,
+			modifiedNodes: ['bone_1'],
+			nodes: WALK_FRAMES,
+			keyframes: WALK_KEYFRAMES,
+		})
+
+		expect(Object.keys(rig.variants)).toEqual(['red'])
+		expect(rig.variants.red).toMatchObject([
+			{ name: 'bone_1', type: 'model', tags: { item_model: 'robot:bone_1_red' } },
+		])
+	})
+
+	it('reports template code that is not gzipped', async () => {
+		const decode = decodeCodeTemplatePayload({ code: 'not a template' })
+
+		await expect(decode).rejects.toThrow(DFTemplateDecodeError)
+		await expect(decode).rejects.toThrow('The template code is not valid gzip/base64.')
+	})
+})
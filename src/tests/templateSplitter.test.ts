@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+
+import { DFExportError } from '../systems/df/errors'
+import {
+	type DFTemplatePartOptions,
+	type DFTemplateUnit,
+	splitTemplateUnits,
+} from '../systems/df/templateSplitter'
+import type { CodeBlock } from '../systems/df/types'
+
+const getPartName = (part: number) => (part === 1 ? 'rig.init' : `rig.init.part${part}`)
+
+// Every block counts as 100 bytes, so the overhead of a part (4 blocks) is 400 bytes and a part
+// has room for 6 more blocks.
+const OPTIONS: DFTemplatePartOptions = {
+	createFunctionBlock: part => ({ id: 'block', block: 'func', data: getPartName(part) }),
+	createCallBlock: part => ({ id: 'block', block: 'call_func', data: getPartName(part) }),
+	estimateCompressedSize: blocks => Promise.resolve(blocks.length * 100),
+	maxCompressedSize: 1000,
+}
+
+function setVariable(name: string): CodeBlock {
+	return { id: 'block', block: 'set_var', action: 'CreateList', data: name }
+}
+
+function describeBlock(block: CodeBlock): string {
+	if (block.block === 'set_var' && block.action !== 'CreateList') {
+		const list = block.args!.items!.find(({ item }) => item.id === 'txt')!
+		return `${block.action} ${(list.item.data as { name: string }).name}`
+	}
+	return `${block.block} ${block.data}`
+}
+
+describe('DF template splitter', () => {
+	it('keeps units that fit in a single template', async () => {
+		const templates = await splitTemplateUnits(
+			[{ blocks: [setVariable('a')] }, { blocks: [setVariable('b')] }],
+			OPTIONS
+		)
+
+		expect(templates.map(template => template.blocks.map(describeBlock))).toEqual([
+			['func rig.init', 'set_var a', 'set_var b'],
+		])
+	})
+
+	it('names the parts and chains them with calls', async () => {
+		const units: DFTemplateUnit[] = ['a', 'b', 'c', 'd'].map(name => ({
+			blocks: [setVariable(name), setVariable(name)],
+		}))
+		const templates = await splitTemplateUnits(units, OPTIONS)
+
+		expect(templates.map(template => template.blocks.map(describeBlock))).toEqual([
+			[
+				'func rig.init',
+				'set_var a',
+				'set_var a',
+				'set_var b',
+				'set_var b',
+				'set_var c',
+				'set_var c',
+				'call_func rig.init.part2',
+			],
+			['func rig.init.part2', 'set_var d', 'set_var d'],
+		])
+	})
+
+	it('stores a pending list before a split and loads it after the split', async () => {
+		const pendingList = { name: 'walk', dictionary: 'animations' }
+		const units: DFTemplateUnit[] = [
+			{ blocks: Array.from({ length: 4 }, () => setVariable('walk')), pendingList },
+			{ blocks: Array.from({ length: 4 }, () => setVariable('walk')), pendingList },
+			{ blocks: [setVariable('idle')] },
+		]
+		const templates = await splitTemplateUnits(units, OPTIONS)
+
+		expect(templates.map(template => template.blocks.map(describeBlock))).toEqual([
+			[
+				'func rig.init',
+				'set_var walk',
+				'set_var walk',
+				'set_var walk',
+				'set_var walk',
+				'SetDictValue walk',
+				'call_func rig.init.part2',
+			],
+			[
+				'func rig.init.part2',
+				'GetDictValue walk',
+				'set_var walk',
+				'set_var walk',
+				'set_var walk',
+				'set_var walk',
+				'set_var idle',
+			],
+		])
+	})
+
+	it('splits templates that have too many code blocks', async () => {
+		const units: DFTemplateUnit[] = ['a', 'b', 'c'].map(name => ({
+			blocks: [setVariable(name)],
+		}))
+		const templates = await splitTemplateUnits(units, { ...OPTIONS, maxCodeBlocks: 6 })
+
+		expect(templates.map(template => template.blocks.map(describeBlock))).toEqual([
+			['func rig.init', 'set_var a', 'set_var b', 'call_func rig.init.part2'],
+			['func rig.init.part2', 'set_var c'],
+		])
+	})
+
+	it('names the unit that is too large for a template', async () => {
+		const blocks = Array.from({ length: 7 }, () => setVariable('walk'))
+		const split = splitTemplateUnits(
+			[{ blocks: [setVariable('a')] }, { blocks, label: 'Animation "walk" (arm, leg)' }],
+			OPTIONS
+		)
+
+		await expect(split).rejects.toThrow(DFExportError)
+		await expect(split).rejects.toThrow(
+			'Animation "walk" (arm, leg) is too large for a DiamondFire template (700 bytes compressed, the limit is 600 bytes).'
+		)
+	})
+})